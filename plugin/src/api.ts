@@ -1,4 +1,4 @@
-import { NoteShareSettings, ShareRequest, ShareResponse, SharedNote, ThemeSyncRequest, ImageUploadResponse } from './types';
+import { NoteShareSettings, ShareRequest, ShareResponse, CollectionRequest, CollectionResponse, NoteListResponse, NoteSort, NoteStats, StatsGranularity, ThemeSyncRequest, PasswordRequest, NoteChangeResponse, RekeyRequest, RekeyResponse, NoteRevision, ImageUploadResponse } from './types';
 
 export interface StatusResponse {
   status: 'ok' | 'error';
@@ -7,6 +7,21 @@ export interface StatusResponse {
   error?: string;
 }
 
+export interface NoteListOptions {
+  sort?: NoteSort;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string; // from the previous page
+  prefix?: string; // title prefix
+  tag?: string;
+}
+
+export interface StatsOptions {
+  from?: string; // YYYY-MM-DD, default 30 days before `to`
+  to?: string; // YYYY-MM-DD, default today
+  granularity?: StatsGranularity;
+}
+
 export interface ConnectionTestResult {
   success: boolean;
   message: string;
@@ -121,8 +136,44 @@ export class NoteShareAPI {
     return response.json();
   }
 
-  async listNotes(vault: string): Promise<SharedNote[]> {
-    const response = await safeFetch(`${this.settings.serverUrl}/api/notes?vault=${encodeURIComponent(vault)}`, {
+  async shareCollection(request: CollectionRequest): Promise<CollectionResponse> {
+    const response = await safeFetch(`${this.settings.serverUrl}/api/collections`, {
+      method: 'PUT',
+      headers: this.headers,
+      body: JSON.stringify(request),
+    });
+
+    if (!response.ok) {
+      await handleResponseError(response, 'Failed to share folder');
+    }
+
+    return response.json();
+  }
+
+  async deleteCollection(vault: string, slug: string, hash: string): Promise<void> {
+    const response = await safeFetch(
+      `${this.settings.serverUrl}/api/collections/${encodeURIComponent(vault)}/${encodeURIComponent(slug)}/${encodeURIComponent(hash)}`,
+      {
+        method: 'DELETE',
+        headers: this.headers,
+      }
+    );
+
+    if (!response.ok) {
+      await handleResponseError(response, 'Failed to stop sharing folder');
+    }
+  }
+
+  /**
+   * One page of the vault's shared notes (pass the returned cursor for the next)
+   */
+  async listNotes(vault: string, options: NoteListOptions = {}): Promise<NoteListResponse> {
+    const params = new URLSearchParams({ vault });
+    for (const [key, value] of Object.entries(options)) {
+      if (value !== undefined && value !== '') params.set(key, String(value));
+    }
+
+    const response = await safeFetch(`${this.settings.serverUrl}/api/notes?${params}`, {
       method: 'GET',
       headers: this.headers,
     });
@@ -134,7 +185,7 @@ export class NoteShareAPI {
     return response.json();
   }
 
-  async deleteNote(vault: string, titleSlug: string, hash: string): Promise<void> {
+  async deleteNote(vault: string, titleSlug: string, hash: string): Promise<NoteChangeResponse> {
     const response = await safeFetch(
       `${this.settings.serverUrl}/api/notes/${encodeURIComponent(vault)}/${encodeURIComponent(titleSlug)}/${encodeURIComponent(hash)}`,
       {
@@ -146,6 +197,70 @@ export class NoteShareAPI {
     if (!response.ok) {
       await handleResponseError(response, 'Failed to delete note');
     }
+
+    return response.json();
+  }
+
+  async setPassword(vault: string, titleSlug: string, hash: string, password: string | null): Promise<NoteChangeResponse> {
+    const body: PasswordRequest = { password };
+    const response = await safeFetch(
+      `${this.settings.serverUrl}/api/notes/${encodeURIComponent(vault)}/${encodeURIComponent(titleSlug)}/${encodeURIComponent(hash)}/password`,
+      {
+        method: 'PUT',
+        headers: this.headers,
+        body: JSON.stringify(body),
+      }
+    );
+
+    if (!response.ok) {
+      await handleResponseError(response, 'Failed to update password');
+    }
+
+    return response.json();
+  }
+
+  async listRevisions(vault: string, titleSlug: string, hash: string): Promise<NoteRevision[]> {
+    const response = await safeFetch(
+      `${this.settings.serverUrl}/api/notes/${encodeURIComponent(vault)}/${encodeURIComponent(titleSlug)}/${encodeURIComponent(hash)}/revisions`,
+      {
+        method: 'GET',
+        headers: this.headers,
+      }
+    );
+
+    if (!response.ok) {
+      await handleResponseError(response, 'Failed to fetch revisions');
+    }
+
+    return response.json();
+  }
+
+  async restoreRevision(vault: string, titleSlug: string, hash: string, revision: number): Promise<void> {
+    const response = await safeFetch(
+      `${this.settings.serverUrl}/api/notes/${encodeURIComponent(vault)}/${encodeURIComponent(titleSlug)}/${encodeURIComponent(hash)}/revisions/${revision}/restore`,
+      {
+        method: 'POST',
+        headers: this.headers,
+      }
+    );
+
+    if (!response.ok) {
+      await handleResponseError(response, 'Failed to restore revision');
+    }
+  }
+
+  async rekeyVault(request: RekeyRequest): Promise<RekeyResponse> {
+    const response = await safeFetch(`${this.settings.serverUrl}/api/vault/rekey`, {
+      method: 'POST',
+      headers: this.headers,
+      body: JSON.stringify(request),
+    });
+
+    if (!response.ok) {
+      await handleResponseError(response, 'Failed to re-key vault');
+    }
+
+    return response.json();
   }
 
   async syncTheme(request: ThemeSyncRequest): Promise<void> {
@@ -160,8 +275,16 @@ export class NoteShareAPI {
     }
   }
 
-  async getStats(hash: string): Promise<{ views: { timestamp: string; device: string; browser: string; country: string }[]; total: number }> {
-    const response = await safeFetch(`${this.settings.serverUrl}/api/stats/${encodeURIComponent(hash)}`, {
+  /**
+   * View totals and recent views, plus daily rollups (views, visitors, reading) over a date range
+   */
+  async getStats(vault: string, hash: string, options: StatsOptions = {}): Promise<NoteStats> {
+    const params = new URLSearchParams({ vault });
+    for (const [key, value] of Object.entries(options)) {
+      if (value) params.set(key, value);
+    }
+
+    const response = await safeFetch(`${this.settings.serverUrl}/api/stats/${encodeURIComponent(hash)}?${params}`, {
       method: 'GET',
       headers: this.headers,
     });
@@ -177,8 +300,8 @@ export class NoteShareAPI {
     return `${this.settings.serverUrl}/g/${vault}/${titleSlug}/${hash}`;
   }
 
-  async uploadImage(noteHash: string, filename: string, data: ArrayBuffer, contentType: string): Promise<ImageUploadResponse> {
-    const response = await safeFetch(`${this.settings.serverUrl}/api/images/${noteHash}`, {
+  async uploadImage(vault: string, noteHash: string, filename: string, data: ArrayBuffer, contentType: string): Promise<ImageUploadResponse> {
+    const response = await safeFetch(`${this.settings.serverUrl}/api/images/${noteHash}?vault=${encodeURIComponent(vault)}`, {
       method: 'POST',
       headers: {
         'X-API-Key': this.settings.apiKey,
@@ -210,7 +333,7 @@ export class NoteShareAPI {
       });
 
       if (response.status === 401) {
-        return { success: false, message: 'Invalid API key' };
+        return { success: false, message: 'Invalid or revoked API key' };
       }
 
       if (!response.ok) {
@@ -0,0 +1,99 @@
+import { TFile } from 'obsidian';
+import type NoteSharePlugin from './main';
+import { SharedNoteEntry } from './types';
+
+/**
+ * Debounced re-share of shared notes when they are edited.
+ * Rapid edits to the same note coalesce into a single upload.
+ */
+export class AutoSyncManager {
+  // Pending debounce timers keyed by file path
+  private timers = new Map<string, number>();
+  // Notes currently uploading, and those edited again mid-upload
+  private running = new Set<string>();
+  private dirty = new Set<string>();
+
+  constructor(private plugin: NoteSharePlugin) {}
+
+  isEnabled(entry: SharedNoteEntry): boolean {
+    const { settings } = this.plugin;
+    return settings.autoSync && entry.autoSync !== false && !!settings.serverUrl && !!settings.apiKey;
+  }
+
+  handleModify(file: TFile): void {
+    const entry = this.plugin.settings.sharedNotes?.[file.path];
+    if (!entry || !this.isEnabled(entry)) return;
+    this.schedule(file.path);
+  }
+
+  /**
+   * Queue notes edited while the plugin was not running (mtime newer than lastSynced)
+   */
+  catchUp(): void {
+    for (const entry of Object.values(this.plugin.settings.sharedNotes || {})) {
+      if (!this.isEnabled(entry)) continue;
+      const file = this.plugin.app.vault.getAbstractFileByPath(entry.filePath);
+      if (file instanceof TFile && file.stat.mtime > Date.parse(entry.lastSynced)) {
+        this.schedule(file.path);
+      }
+    }
+  }
+
+  schedule(path: string): void {
+    this.cancel(path);
+    const delay = Math.max(1, this.plugin.settings.autoSyncDelay || 0) * 1000;
+    const timer = window.setTimeout(() => {
+      this.timers.delete(path);
+      void this.flush(path);
+    }, delay);
+    this.timers.set(path, timer);
+  }
+
+  cancel(path: string): void {
+    const timer = this.timers.get(path);
+    if (timer !== undefined) {
+      window.clearTimeout(timer);
+      this.timers.delete(path);
+    }
+  }
+
+  rename(oldPath: string, newPath: string): void {
+    if (!this.timers.has(oldPath)) return;
+    this.cancel(oldPath);
+    this.schedule(newPath);
+  }
+
+  clear(): void {
+    this.timers.forEach((timer) => window.clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  private async flush(path: string): Promise<void> {
+    // Upload already in progress - re-run once it finishes
+    if (this.running.has(path)) {
+      this.dirty.add(path);
+      return;
+    }
+
+    const entry = this.plugin.settings.sharedNotes?.[path];
+    const file = this.plugin.app.vault.getAbstractFileByPath(path);
+    if (!entry || !(file instanceof TFile) || !this.isEnabled(entry)) return;
+    if (!this.plugin.isShareable(file)) {
+      console.log(`[NoteShare] Skipping auto-sync (share: false): ${path}`);
+      return;
+    }
+
+    this.running.add(path);
+    try {
+      console.log(`[NoteShare] Auto-syncing: ${path}`);
+      await this.plugin.uploadNote(file, entry.includeLinks ?? false, entry.linkTraversal);
+    } catch (e) {
+      console.error(`[NoteShare] Auto-sync failed for ${path}:`, e);
+    } finally {
+      this.running.delete(path);
+      if (this.dirty.delete(path)) {
+        this.schedule(path);
+      }
+    }
+  }
+}
@@ -0,0 +1,138 @@
+import { App, TFile } from 'obsidian';
+import type { AllCanvasNodeData, CanvasData } from 'obsidian/canvas';
+import { extractBlock, extractSection, stripFrontmatter } from '@obsidian-note-share/shared';
+import type { LinkedNote, SharedCanvas, SharedCanvasNode } from './types';
+import { IMAGE_EXTENSIONS, VIDEO_EXTENSIONS } from './image-processing';
+
+export interface CanvasOptions {
+  /** Redacted, transcluded text (media embeds left for uploadMedia) */
+  prepareText: (text: string) => Promise<string>;
+  /** Upload media embedded in markdown, returning the rewritten markdown */
+  uploadMedia: (markdown: string) => Promise<string>;
+  /** Content of a note shared with the canvas, ready for upload (images uploaded) */
+  readNote: (file: TFile) => Promise<string>;
+  isShareable: (file: TFile) => boolean;
+  /** Password-protected notes are shared but their content stays off the canvas */
+  isProtected: (file: TFile) => boolean;
+}
+
+/**
+ * Turn a .canvas file into the uploaded form: text cards are redacted and
+ * their media uploaded, note cards carry the (section of the) note, media
+ * cards an image or video. Notes on the canvas are returned for sharing
+ * alongside it; titles are unique (the first note wins).
+ */
+export async function buildSharedCanvas(
+  app: App,
+  file: TFile,
+  options: CanvasOptions
+): Promise<{ canvas: SharedCanvas; notes: LinkedNote[] }> {
+  const data = parseCanvasFile(await app.vault.read(file));
+  const notes = new Map<string, { title: string; content: Promise<string> }>();
+
+  const nodes = await Promise.all(
+    data.nodes.map(async (node): Promise<SharedCanvasNode> => {
+      const base: SharedCanvasNode = {
+        id: node.id,
+        type: node.type,
+        x: node.x,
+        y: node.y,
+        width: node.width,
+        height: node.height,
+        color: node.color,
+      };
+
+      switch (node.type) {
+        case 'text':
+          return { ...base, text: await options.uploadMedia(await options.prepareText(node.text || '')) };
+        case 'link':
+          return { ...base, url: node.url };
+        case 'group':
+          return { ...base, label: node.label };
+        case 'file':
+          return { ...base, ...(await fileCard(app, node.file, node.subpath, notes, options)) };
+      }
+    })
+  );
+
+  const titles = new Set<string>();
+  const linked: LinkedNote[] = [];
+  for (const [path, note] of notes) {
+    if (titles.has(note.title)) {
+      console.log(`[NoteShare] Skipping ${path}: another note on the canvas is titled "${note.title}"`);
+      continue;
+    }
+    titles.add(note.title);
+    linked.push({ title: note.title, content: await note.content });
+  }
+
+  const edges = data.edges.map((edge) => ({
+    id: edge.id,
+    fromNode: edge.fromNode,
+    toNode: edge.toNode,
+    fromSide: edge.fromSide,
+    toSide: edge.toSide,
+    fromEnd: edge.fromEnd,
+    toEnd: edge.toEnd,
+    color: edge.color,
+    label: edge.label,
+  }));
+
+  return { canvas: { nodes, edges }, notes: linked };
+}
+
+/**
+ * Card for a file node: a note (its content, or the linked heading/block),
+ * an image or video, or just the file name for anything else
+ */
+async function fileCard(
+  app: App,
+  path: string,
+  subpath: string | undefined,
+  notes: Map<string, { title: string; content: Promise<string> }>,
+  options: CanvasOptions
+): Promise<Pick<SharedCanvasNode, 'file' | 'text'>> {
+  const target = app.vault.getAbstractFileByPath(path);
+  if (!(target instanceof TFile)) return { file: path.split('/').pop() };
+
+  if (target.extension === 'md') {
+    // Notes with share: false show as their title only
+    if (!options.isShareable(target)) return { file: target.basename };
+
+    let note = notes.get(target.path);
+    if (!note) {
+      note = { title: target.basename, content: options.readNote(target) };
+      notes.set(target.path, note);
+    }
+    const content = await note.content;
+    if (options.isProtected(target)) return { file: target.basename };
+    return { file: target.basename, text: cardText(content, subpath) };
+  }
+
+  const ext = target.extension.toLowerCase();
+  if (IMAGE_EXTENSIONS.includes(ext) || VIDEO_EXTENSIONS.includes(ext)) {
+    return { file: target.name, text: await options.uploadMedia(`![[${target.path}]]`) };
+  }
+  return { file: target.name };
+}
+
+/**
+ * The part of a note a card shows: all of it, a section (#Heading) or a block (#^id)
+ */
+function cardText(content: string, subpath: string | undefined): string {
+  const body = stripFrontmatter(content);
+  const target = (subpath || '').replace(/^#/, '').trim();
+  if (!target) return body;
+  const extracted = target.startsWith('^')
+    ? extractBlock(body, target.slice(1))
+    : extractSection(body, target.split('#').filter((h) => h.trim()));
+  return extracted ?? body;
+}
+
+function parseCanvasFile(json: string): CanvasData {
+  const data = JSON.parse(json || '{}') as Partial<CanvasData>;
+  return {
+    nodes: (data.nodes || []).filter((n): n is AllCanvasNodeData => !!n && typeof n.id === 'string'),
+    edges: data.edges || [],
+  };
+}
@@ -0,0 +1,194 @@
+import { Notice, TFile, TFolder } from 'obsidian';
+import type NoteSharePlugin from './main';
+import { Semaphore } from './image-processing';
+import { CollectionResponse } from './types';
+
+// Notes uploaded at once when publishing a folder (each runs its own image uploads)
+const FOLDER_CONCURRENCY = 4;
+
+/**
+ * Publishes folders as collections and keeps them in sync: notes added to a
+ * shared folder are uploaded and the collection is updated (debounced, so a
+ * move - delete + create - or a new note being renamed only publishes once).
+ * Edits to notes already in the folder go through auto-sync.
+ */
+export class FolderShareManager {
+  // Pending debounce timers keyed by folder path
+  private timers = new Map<string, number>();
+
+  constructor(private plugin: NoteSharePlugin) {}
+
+  /**
+   * Share every note in a folder and copy the collection URL
+   */
+  async share(folder: TFolder): Promise<void> {
+    const { settings } = this.plugin;
+    if (!settings.serverUrl || !settings.apiKey) {
+      new Notice('Please configure server URL and API key in settings');
+      return;
+    }
+
+    const count = this.notesIn(folder.path).length;
+    if (count === 0) {
+      new Notice(`No shareable notes in "${folder.name || this.plugin.app.vault.getName()}"`);
+      return;
+    }
+
+    try {
+      this.cancel(folder.path);
+      new Notice(`Sharing ${count} ${count === 1 ? 'note' : 'notes'}...`);
+      const { result, failed } = await this.publish(folder.path, true);
+      await navigator.clipboard.writeText(result.url);
+      new Notice(failed ? `✓ Folder URL copied (${failed} ${failed === 1 ? 'note' : 'notes'} failed to upload)` : '✓ Folder URL copied');
+    } catch (e) {
+      console.error('[NoteShare] Failed to share folder:', e);
+      new Notice(`Failed to share folder: ${e instanceof Error ? e.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Stop publishing a folder's collection (its notes stay shared)
+   */
+  async unshare(folderPath: string): Promise<void> {
+    const entry = this.plugin.settings.sharedFolders[folderPath];
+    if (!entry) return;
+
+    try {
+      this.cancel(folderPath);
+      await this.plugin.api.deleteCollection(this.plugin.getEffectiveVaultSlug(), entry.slug, entry.hash);
+      delete this.plugin.settings.sharedFolders[folderPath];
+      await this.plugin.saveSettings();
+      new Notice('Folder is no longer shared (its notes stay shared)');
+    } catch (e) {
+      console.error('[NoteShare] Failed to stop sharing folder:', e);
+      new Notice(`Failed to stop sharing folder: ${e instanceof Error ? e.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * A note was added to, removed from or moved within the vault
+   */
+  handleChange(path: string): void {
+    const { settings } = this.plugin;
+    if (!settings.autoSync || !settings.serverUrl || !settings.apiKey) return;
+
+    for (const folderPath of Object.keys(settings.sharedFolders)) {
+      if (!folderPath || path.startsWith(`${folderPath}/`)) this.schedule(folderPath);
+    }
+  }
+
+  /**
+   * A shared folder was renamed: publish it under its new path (new URL) and
+   * remove the old collection
+   */
+  async renameFolder(oldPath: string, newPath: string): Promise<void> {
+    const entry = this.plugin.settings.sharedFolders[oldPath];
+    if (!entry) return;
+
+    this.cancel(oldPath);
+    delete this.plugin.settings.sharedFolders[oldPath];
+    await this.plugin.saveSettings();
+    try {
+      await this.plugin.api.deleteCollection(this.plugin.getEffectiveVaultSlug(), entry.slug, entry.hash);
+      await this.publish(newPath, false);
+    } catch (e) {
+      console.error(`[NoteShare] Failed to republish renamed folder ${newPath}:`, e);
+    }
+  }
+
+  schedule(folderPath: string): void {
+    this.cancel(folderPath);
+    const delay = Math.max(1, this.plugin.settings.autoSyncDelay || 0) * 1000;
+    const timer = window.setTimeout(() => {
+      this.timers.delete(folderPath);
+      this.publish(folderPath, false).catch((e) => {
+        console.error(`[NoteShare] Folder sync failed for ${folderPath}:`, e);
+      });
+    }, delay);
+    this.timers.set(folderPath, timer);
+  }
+
+  cancel(folderPath: string): void {
+    const timer = this.timers.get(folderPath);
+    if (timer !== undefined) {
+      window.clearTimeout(timer);
+      this.timers.delete(folderPath);
+    }
+  }
+
+  clear(): void {
+    this.timers.forEach((timer) => window.clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  /**
+   * Upload the folder's notes (all of them, or only those not shared yet)
+   * and send the collection's note list
+   */
+  private async publish(folderPath: string, uploadAll: boolean): Promise<{ result: CollectionResponse; failed: number }> {
+    const { settings } = this.plugin;
+    const files = this.notesIn(folderPath);
+    const semaphore = new Semaphore(FOLDER_CONCURRENCY);
+    const failed = new Set<string>();
+
+    await Promise.all(
+      files
+        .filter((file) => uploadAll || !settings.sharedNotes?.[file.path])
+        .map((file) =>
+          semaphore.run(async () => {
+            // Keep the note's own linked-note options if it was shared before
+            const entry = settings.sharedNotes?.[file.path];
+            try {
+              await this.plugin.uploadNote(file, entry?.includeLinks ?? false, entry?.linkTraversal);
+            } catch (e) {
+              console.error(`[NoteShare] Failed to upload ${file.path}:`, e);
+              failed.add(file.path);
+            }
+          })
+        )
+    );
+
+    const prefix = folderPath ? `${folderPath}/` : '';
+    const folderName = folderPath.split('/').pop() || this.plugin.app.vault.getName();
+    const result = await this.plugin.api.shareCollection({
+      vault: this.plugin.getEffectiveVaultSlug(),
+      folder: folderPath,
+      title: folderName,
+      notes: files
+        .filter((file) => !failed.has(file.path))
+        .map((file) => ({ path: file.path.slice(prefix.length), title: file.basename })),
+    });
+
+    settings.sharedFolders[folderPath] = {
+      folderPath,
+      slug: result.slug,
+      hash: result.hash,
+      lastSynced: new Date().toISOString(),
+    };
+    await this.plugin.saveSettings();
+    console.log(`[NoteShare] Published folder ${folderPath || '/'}: ${files.length - failed.size} notes`);
+
+    return { result, failed: failed.size };
+  }
+
+  /**
+   * Shareable notes under a folder; notes are shared by title, so the first
+   * note with a given title wins
+   */
+  private notesIn(folderPath: string): TFile[] {
+    const prefix = folderPath ? `${folderPath}/` : '';
+    const titles = new Set<string>();
+    return this.plugin.app.vault
+      .getMarkdownFiles()
+      .filter((file) => file.path.startsWith(prefix) && this.plugin.isShareable(file))
+      .sort((a, b) => a.path.localeCompare(b.path))
+      .filter((file) => {
+        if (titles.has(file.basename)) {
+          console.log(`[NoteShare] Skipping ${file.path}: another note in the folder is titled "${file.basename}"`);
+          return false;
+        }
+        titles.add(file.basename);
+        return true;
+      });
+  }
+}
@@ -1,5 +1,4 @@
 import { TFile, App, Notice } from 'obsidian';
-import { generateNoteHash } from '@obsidian-note-share/shared';
 import type { NoteShareAPI } from './api';
 
 // Regex for Obsidian-style image embeds: ![[path]] or ![[path|alias]]
@@ -51,8 +50,10 @@ export class Semaphore {
   private running = 0;
   private queue: (() => void)[] = [];
 
+  constructor(private limit = MAX_CONCURRENT) {}
+
   async acquire(): Promise<void> {
-    if (this.running < MAX_CONCURRENT) {
+    if (this.running < this.limit) {
       this.running++;
       return;
     }
@@ -130,6 +131,7 @@ export async function uploadImageFile(
   app: App,
   api: NoteShareAPI,
   imageFile: TFile,
+  vaultSlug: string,
   noteHash: string
 ): Promise<string | undefined> {
   try {
@@ -139,7 +141,7 @@ export async function uploadImageFile(
     // Skip WebP conversion for SVGs (already optimized vectors)
     if (ext === 'svg') {
       const imageData = await app.vault.readBinary(imageFile);
-      const result = await api.uploadImage(noteHash, imageFile.name, imageData, 'image/svg+xml');
+      const result = await api.uploadImage(vaultSlug, noteHash, imageFile.name, imageData, 'image/svg+xml');
       console.log(`[NoteShare] SVG uploaded: ${result.url}`);
       return result.url;
     }
@@ -163,7 +165,7 @@ export async function uploadImageFile(
     }
 
     const webpFilename = imageFile.basename + '.webp';
-    const result = await api.uploadImage(noteHash, webpFilename, webpData, 'image/webp');
+    const result = await api.uploadImage(vaultSlug, noteHash, webpFilename, webpData, 'image/webp');
     console.log(`[NoteShare] Image uploaded: ${result.url}`);
     return result.url;
   } catch (e) {
@@ -253,6 +255,7 @@ export async function uploadVideoFile(
   app: App,
   api: NoteShareAPI,
   videoFile: TFile,
+  vaultSlug: string,
   noteHash: string
 ): Promise<VideoUploadResult | undefined> {
   try {
@@ -270,10 +273,10 @@ export async function uploadVideoFile(
     const contentType = videoContentType(ext);
     const data = await app.vault.readBinary(videoFile);
 
-    const videoUpload = api.uploadImage(noteHash, videoFile.name, data, contentType);
+    const videoUpload = api.uploadImage(vaultSlug, noteHash, videoFile.name, data, contentType);
     const thumb = await generateVideoThumbnail(data, contentType);
     const thumbUpload = thumb
-      ? api.uploadImage(noteHash, `${videoFile.basename}.thumb.webp`, thumb, 'image/webp')
+      ? api.uploadImage(vaultSlug, noteHash, `${videoFile.basename}.thumb.webp`, thumb, 'image/webp')
       : Promise.resolve(undefined);
 
     const [videoResult, thumbResult] = await Promise.all([videoUpload, thumbUpload]);
@@ -294,14 +297,11 @@ export async function processImages(
   file: TFile,
   content: string,
   vaultSlug: string,
+  noteHash: string,
   semaphore?: Semaphore
 ): Promise<string> {
   const sem = semaphore ?? new Semaphore();
 
-  // Generate hash for this note (same logic as server)
-  const title = file.basename;
-  const noteHash = await generateNoteHash(vaultSlug, title);
-
   let processedContent = content;
 
   // Match ALL Obsidian-style embeds: ![[path]] or ![[path|alias]]
@@ -319,12 +319,12 @@ export async function processImages(
     sem.run(async () => {
       const ext = mediaFile.extension.toLowerCase();
       if (VIDEO_EXTENSIONS.includes(ext)) {
-        const result = await uploadVideoFile(app, api, mediaFile, noteHash);
+        const result = await uploadVideoFile(app, api, mediaFile, vaultSlug, noteHash);
         if (!result) return undefined;
         const posterAttr = result.poster ? ` poster="${result.poster}"` : '';
         return { original, replacement: `<video src="${result.url}"${posterAttr} controls playsinline preload="metadata" style="max-width:100%"></video>` };
       }
-      const url = await uploadImageFile(app, api, mediaFile, noteHash);
+      const url = await uploadImageFile(app, api, mediaFile, vaultSlug, noteHash);
       return url ? { original, replacement: `![${alt}](${url})` } : undefined;
     });
 
@@ -0,0 +1,108 @@
+import { App, TFile, getAllTags, getLinkpath } from 'obsidian';
+import type { LinkTraversal } from './types';
+
+// Upper bound for the depth setting (the set grows quickly in dense vaults)
+export const MAX_LINK_DEPTH = 5;
+
+export interface LinkGraphNote {
+  file: TFile;
+  depth: number; // hops from the shared note
+  content: string; // redacted content, reused for the upload
+  links: string[]; // titles of the notes in the set this note links to
+}
+
+export interface LinkGraphOptions {
+  /** Redacted note content (links only in redacted text are not followed) */
+  read: (file: TFile) => Promise<string>;
+  isShareable: (file: TFile) => boolean;
+}
+
+/**
+ * Walk the link graph breadth-first from a note up to traversal.depth hops.
+ * Notes failing the folder/tag filters are neither shared nor walked through.
+ * Returns the shared note first; titles are unique (the first note wins).
+ */
+export async function walkLinkGraph(
+  app: App,
+  root: TFile,
+  rootContent: string,
+  traversal: LinkTraversal,
+  options: LinkGraphOptions
+): Promise<LinkGraphNote[]> {
+  const depth = Math.min(Math.max(traversal.depth, 0), MAX_LINK_DEPTH);
+  const notes = new Map<string, LinkGraphNote>([[root.path, { file: root, depth: 0, content: rootContent, links: [] }]]);
+  const titles = new Set([root.basename]);
+  const targets = new Map<string, TFile[]>();
+  let frontier = [notes.get(root.path)!];
+
+  while (frontier.length > 0) {
+    const next: LinkGraphNote[] = [];
+    for (const note of frontier) {
+      const linked = linkedFiles(app, note.file, note.content).filter(
+        (file) => options.isShareable(file) && matchesFilters(app, file, traversal)
+      );
+      targets.set(note.file.path, linked);
+      if (note.depth >= depth) continue;
+
+      for (const file of linked) {
+        if (notes.has(file.path)) continue;
+        if (titles.has(file.basename)) {
+          console.log(`[NoteShare] Skipping ${file.path}: another linked note is titled "${file.basename}"`);
+          continue;
+        }
+        const entry: LinkGraphNote = { file, depth: note.depth + 1, content: await options.read(file), links: [] };
+        notes.set(file.path, entry);
+        titles.add(file.basename);
+        next.push(entry);
+      }
+    }
+    frontier = next;
+  }
+
+  // Record links between notes in the set so each page links to the others
+  for (const note of notes.values()) {
+    note.links = [...new Set(
+      (targets.get(note.file.path) || [])
+        .filter((file) => notes.has(file.path) && file.path !== note.file.path)
+        .map((file) => file.basename)
+    )];
+  }
+
+  return [...notes.values()];
+}
+
+/**
+ * Markdown notes a note links to (subpaths stripped, links in redacted text ignored)
+ */
+function linkedFiles(app: App, file: TFile, content: string): TFile[] {
+  const files: TFile[] = [];
+  for (const link of app.metadataCache.getFileCache(file)?.links || []) {
+    if (!content.includes(link.original)) continue;
+    const linkpath = getLinkpath(link.link);
+    const linked = linkpath ? app.metadataCache.getFirstLinkpathDest(linkpath, file.path) : null;
+    if (linked instanceof TFile && linked.extension === 'md') files.push(linked);
+  }
+  return files;
+}
+
+function matchesFilters(app: App, file: TFile, traversal: LinkTraversal): boolean {
+  const inFolder = (folder: string) => file.path.startsWith(`${folder.replace(/^\/+|\/+$/g, '')}/`);
+  if (traversal.excludeFolders.some(inFolder)) return false;
+  if (traversal.includeFolders.length && !traversal.includeFolders.some(inFolder)) return false;
+
+  if (!traversal.includeTags.length && !traversal.excludeTags.length) return true;
+
+  // Tags match nested tags too: "project" matches #project/alpha
+  const cache = app.metadataCache.getFileCache(file);
+  const tags = (cache ? getAllTags(cache) || [] : []).map(normalizeTag);
+  const hasTag = (tag: string) => {
+    const wanted = normalizeTag(tag);
+    return tags.some((t) => t === wanted || t.startsWith(`${wanted}/`));
+  };
+  if (traversal.excludeTags.some(hasTag)) return false;
+  return !traversal.includeTags.length || traversal.includeTags.some(hasTag);
+}
+
+function normalizeTag(tag: string): string {
+  return tag.replace(/^#/, '').toLowerCase();
+}
@@ -0,0 +1,121 @@
+import { App, Modal, Setting } from 'obsidian';
+import type { LinkTraversal } from './types';
+import { LinkGraphNote, MAX_LINK_DEPTH } from './link-graph';
+
+/**
+ * Choose how far to follow links and preview the notes that will be shared.
+ * Resolves with the chosen options, or undefined if the modal was dismissed.
+ */
+export class LinkedNotesModal extends Modal {
+  private traversal: LinkTraversal;
+  private result: LinkTraversal | undefined = undefined;
+  private listEl: HTMLElement;
+  private summaryEl: HTMLElement;
+  private shareButton: HTMLButtonElement;
+  private previewTimer: number | undefined;
+  private previewRun = 0;
+
+  constructor(
+    app: App,
+    private title: string,
+    initial: LinkTraversal,
+    private preview: (traversal: LinkTraversal) => Promise<LinkGraphNote[]>,
+    private onDone: (result: LinkTraversal | undefined) => void
+  ) {
+    super(app);
+    this.traversal = { ...initial };
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.createEl('h3', { text: `Share "${this.title}" with linked notes` });
+
+    new Setting(contentEl)
+      .setName('Depth')
+      .setDesc('How many links away from this note to follow')
+      .addSlider((slider) =>
+        slider
+          .setLimits(1, MAX_LINK_DEPTH, 1)
+          .setValue(this.traversal.depth)
+          .setDynamicTooltip()
+          .onChange((value) => this.update({ depth: value }))
+      );
+
+    this.addListSetting('Only folders', 'Comma-separated; empty = any folder', 'includeFolders', 'Projects, Areas/Work');
+    this.addListSetting('Skip folders', 'Notes in these folders are not shared or followed', 'excludeFolders', 'Journal, Templates');
+    this.addListSetting('Only tags', 'Comma-separated; empty = any tags (nested tags match)', 'includeTags', 'project, publish');
+    this.addListSetting('Skip tags', 'Notes with these tags are not shared or followed', 'excludeTags', 'draft');
+
+    this.summaryEl = contentEl.createEl('p', { cls: 'setting-item-description' });
+    this.listEl = contentEl.createEl('ul');
+    this.listEl.style.maxHeight = '240px';
+    this.listEl.style.overflowY = 'auto';
+
+    new Setting(contentEl).addButton((button) => {
+      this.shareButton = button.buttonEl;
+      button
+        .setButtonText('Share')
+        .setCta()
+        .onClick(() => {
+          this.result = this.traversal;
+          this.close();
+        });
+    });
+
+    this.refreshPreview();
+  }
+
+  onClose(): void {
+    window.clearTimeout(this.previewTimer);
+    this.contentEl.empty();
+    this.onDone(this.result);
+  }
+
+  private addListSetting(name: string, desc: string, key: keyof Omit<LinkTraversal, 'depth'>, placeholder: string): void {
+    new Setting(this.contentEl)
+      .setName(name)
+      .setDesc(desc)
+      .addText((text) =>
+        text
+          .setPlaceholder(placeholder)
+          .setValue(this.traversal[key].join(', '))
+          .onChange((value) =>
+            this.update({ [key]: value.split(',').map((v) => v.trim()).filter(Boolean) })
+          )
+      );
+  }
+
+  private update(change: Partial<LinkTraversal>): void {
+    this.traversal = { ...this.traversal, ...change };
+    // Typing in the filters shouldn't re-walk the graph on every key
+    window.clearTimeout(this.previewTimer);
+    this.previewTimer = window.setTimeout(() => this.refreshPreview(), 300);
+  }
+
+  private async refreshPreview(): Promise<void> {
+    const run = ++this.previewRun;
+    this.summaryEl.setText('Finding linked notes...');
+    this.shareButton.disabled = true;
+
+    let notes: LinkGraphNote[];
+    try {
+      notes = await this.preview(this.traversal);
+    } catch (e) {
+      console.error('[NoteShare] Failed to collect linked notes:', e);
+      if (run === this.previewRun) this.summaryEl.setText('Failed to collect linked notes');
+      return;
+    }
+    if (run !== this.previewRun) return;
+
+    this.listEl.empty();
+    for (const note of notes.slice(1)) {
+      this.listEl.createEl('li', { text: `${note.file.path} (${note.depth} ${note.depth === 1 ? 'link' : 'links'} away)` });
+    }
+    const count = notes.length - 1;
+    this.summaryEl.setText(
+      count ? `This note and ${count} linked ${count === 1 ? 'note' : 'notes'} will be shared:` : 'No linked notes match - only this note will be shared.'
+    );
+    this.shareButton.setText(`Share ${notes.length} ${notes.length === 1 ? 'note' : 'notes'}`);
+    this.shareButton.disabled = false;
+  }
+}
@@ -1,14 +1,26 @@
-import { Notice, Plugin, TFile } from 'obsidian';
-import { slugify, generateNoteHash } from '@obsidian-note-share/shared';
-import { NoteShareSettings, DEFAULT_SETTINGS, ShareRequest, ThemeSettings } from './types';
+import { Notice, Plugin, TFile, TFolder } from 'obsidian';
+import { slugify, generateNoteHash, redactContent } from '@obsidian-note-share/shared';
+import { NoteShareSettings, DEFAULT_SETTINGS, DEFAULT_LINK_TRAVERSAL, LinkedNote, LinkTraversal, ShareRequest, ShareResponse, ThemeSettings } from './types';
 import { NoteShareAPI } from './api';
 import { NoteShareSettingTab } from './settings';
 import { SharedNotesView, VIEW_TYPE_SHARED_NOTES } from './sidebar';
 import { Semaphore, processImages } from './image-processing';
+import { AutoSyncManager } from './auto-sync';
+import { PasswordModal } from './password-modal';
+import { transcludeNotes } from './transclusion';
+import { LinkGraphNote, walkLinkGraph } from './link-graph';
+import { LinkedNotesModal } from './linked-notes-modal';
+import { FolderShareManager } from './folder-share';
+import { buildSharedCanvas } from './canvas';
+
+// How long old URLs keep redirecting after the URL secret changes (if redirects are enabled)
+const REKEY_REDIRECT_DAYS = 30;
 
 export default class NoteSharePlugin extends Plugin {
   settings: NoteShareSettings;
   api: NoteShareAPI;
+  autoSync: AutoSyncManager;
+  folderShare: FolderShareManager;
 
   // Track last API config for smart recreation
   private lastApiUrl: string = '';
@@ -20,10 +32,23 @@ export default class NoteSharePlugin extends Plugin {
     this.api = new NoteShareAPI(this.settings);
     this.lastApiUrl = this.settings.serverUrl;
     this.lastApiKey = this.settings.apiKey;
+    this.autoSync = new AutoSyncManager(this);
+    this.folderShare = new FolderShareManager(this);
 
     // Check and sync theme if changed (runs after workspace is ready)
     this.app.workspace.onLayoutReady(() => {
       this.checkAndSyncTheme();
+      // Re-share notes edited while the plugin was not running
+      this.autoSync.catchUp();
+
+      // New notes in shared folders (registered here - the vault fires create for every file on load)
+      this.registerEvent(
+        this.app.vault.on('create', (file) => {
+          if (file instanceof TFile && file.extension === 'md') {
+            this.folderShare.handleChange(file.path);
+          }
+        })
+      );
     });
 
     // Register sidebar view
@@ -37,7 +62,26 @@ export default class NoteSharePlugin extends Plugin {
     // Add right-click menu item
     this.registerEvent(
       this.app.workspace.on('file-menu', (menu, file) => {
-        if (!(file instanceof TFile) || file.extension !== 'md') return;
+        if (file instanceof TFolder) {
+          const shared = this.settings.sharedFolders[file.path];
+          menu.addItem((item) => {
+            item
+              .setTitle(shared ? 'NoteShare: Update shared folder' : 'NoteShare: Share folder')
+              .setIcon('folder-up')
+              .onClick(() => this.folderShare.share(file));
+          });
+          if (shared) {
+            menu.addItem((item) => {
+              item
+                .setTitle('NoteShare: Stop sharing folder')
+                .setIcon('folder-x')
+                .onClick(() => this.folderShare.unshare(file.path));
+            });
+          }
+          return;
+        }
+
+        if (!(file instanceof TFile) || !this.isShareableType(file)) return;
 
         menu.addItem((item) => {
           item
@@ -45,12 +89,39 @@ export default class NoteSharePlugin extends Plugin {
             .setIcon('share')
             .onClick(() => this.shareNote(file));
         });
-        menu.addItem((item) => {
-          item
-            .setTitle('NoteShare: Create URL + Linked Notes')
-            .setIcon('share-2')
-            .onClick(() => this.shareNote(file, true));
-        });
+        // Canvases always include the notes on them
+        if (file.extension === 'md') {
+          menu.addItem((item) => {
+            item
+              .setTitle('NoteShare: Create URL + Linked Notes')
+              .setIcon('share-2')
+              .onClick(() => this.shareNote(file, true));
+          });
+          menu.addItem((item) => {
+            item
+              .setTitle('NoteShare: Create URL + Linked Notes (choose depth)...')
+              .setIcon('git-fork')
+              .onClick(() => this.shareNoteWithLinkGraph(file));
+          });
+        }
+
+        const entry = this.settings.sharedNotes?.[file.path];
+        if (entry) {
+          menu.addItem((item) => {
+            item
+              .setTitle(entry.autoSync === false ? 'NoteShare: Enable auto-sync' : 'NoteShare: Disable auto-sync')
+              .setIcon('refresh-cw')
+              .onClick(() => this.toggleAutoSync(file));
+          });
+          menu.addItem((item) => {
+            item
+              .setTitle(entry.protected ? 'NoteShare: Change password' : 'NoteShare: Set password')
+              .setIcon('lock')
+              .onClick(() =>
+                this.editPassword(entry.titleSlug, entry.hash, this.shareTitle(file), !!entry.protected)
+              );
+          });
+        }
       })
     );
 
@@ -60,7 +131,7 @@ export default class NoteSharePlugin extends Plugin {
       name: 'Share current note',
       checkCallback: (checking: boolean) => {
         const file = this.app.workspace.getActiveFile();
-        if (file && file.extension === 'md') {
+        if (file && this.isShareableType(file)) {
           if (!checking) {
             this.shareNote(file);
           }
@@ -70,6 +141,21 @@ export default class NoteSharePlugin extends Plugin {
       },
     });
 
+    this.addCommand({
+      id: 'share-current-note-with-linked-notes',
+      name: 'Share current note with linked notes...',
+      checkCallback: (checking: boolean) => {
+        const file = this.app.workspace.getActiveFile();
+        if (file && file.extension === 'md') {
+          if (!checking) {
+            this.shareNoteWithLinkGraph(file);
+          }
+          return true;
+        }
+        return false;
+      },
+    });
+
     // Add sync theme command
     this.addCommand({
       id: 'sync-theme',
@@ -80,9 +166,19 @@ export default class NoteSharePlugin extends Plugin {
     // Add settings tab
     this.addSettingTab(new NoteShareSettingTab(this.app, this));
 
+    // Auto-sync shared notes on edit (debounced)
+    this.registerEvent(
+      this.app.vault.on('modify', (file) => {
+        if (file instanceof TFile) {
+          this.autoSync.handleModify(file);
+        }
+      })
+    );
+
     // Handle file renames
     this.registerEvent(
       this.app.vault.on('rename', (file, oldPath) => {
+        this.autoSync.rename(oldPath, file.path);
         if (this.settings.sharedNotes?.[oldPath]) {
           this.settings.sharedNotes[file.path] = {
             ...this.settings.sharedNotes[oldPath],
@@ -91,16 +187,36 @@ export default class NoteSharePlugin extends Plugin {
           delete this.settings.sharedNotes[oldPath];
           this.saveSettings();
         }
+
+        // Shared folders (and shared folders inside them) move to their new path
+        if (file instanceof TFolder) {
+          for (const folderPath of Object.keys(this.settings.sharedFolders)) {
+            if (folderPath === oldPath || folderPath.startsWith(`${oldPath}/`)) {
+              this.folderShare.renameFolder(folderPath, file.path + folderPath.slice(oldPath.length));
+            }
+          }
+        } else if (file instanceof TFile && file.extension === 'md') {
+          // Moved into or out of a shared folder
+          this.folderShare.handleChange(oldPath);
+          this.folderShare.handleChange(file.path);
+        }
       })
     );
 
     // Handle file deletes
     this.registerEvent(
       this.app.vault.on('delete', (file) => {
+        this.autoSync.cancel(file.path);
         if (this.settings.sharedNotes?.[file.path]) {
           delete this.settings.sharedNotes[file.path];
           this.saveSettings();
         }
+
+        if (file instanceof TFolder && this.settings.sharedFolders[file.path]) {
+          this.folderShare.unshare(file.path);
+        } else if (file instanceof TFile && file.extension === 'md') {
+          this.folderShare.handleChange(file.path);
+        }
       })
     );
   }
@@ -135,6 +251,45 @@ export default class NoteSharePlugin extends Plugin {
     return this.settings.vaultName || this.getVaultSlug();
   }
 
+  /**
+   * Note hash as computed by the worker (salted with the vault's URL secret)
+   */
+  computeNoteHash(title: string): Promise<string> {
+    return generateNoteHash(this.getEffectiveVaultSlug(), title, this.settings.hashSecret || undefined);
+  }
+
+  /**
+   * Change the URL secret on the worker, re-key existing notes and update local records
+   */
+  async rekeyVault(secret: string): Promise<void> {
+    if (!this.settings.serverUrl || !this.settings.apiKey) {
+      new Notice('Please configure server URL and API key in settings');
+      return;
+    }
+
+    try {
+      new Notice('Re-keying shared notes...');
+      const result = await this.api.rekeyVault({
+        vault: this.getEffectiveVaultSlug(),
+        secret: secret || null,
+        redirectDays: this.settings.rekeyRedirects ? REKEY_REDIRECT_DAYS : 0,
+      });
+
+      this.settings.hashSecret = secret;
+      const newHashes = new Map(result.notes.map((n) => [`${n.titleSlug}:${n.oldHash}`, n.newHash]));
+      for (const entry of Object.values(this.settings.sharedNotes || {})) {
+        entry.hash = newHashes.get(`${entry.titleSlug}:${entry.hash}`) || entry.hash;
+      }
+      await this.saveSettings();
+
+      new Notice(`✓ URL secret applied (${result.migrated} note${result.migrated === 1 ? '' : 's'} re-keyed)`);
+      await this.refreshSidebar();
+    } catch (e) {
+      console.error('[NoteShare] Failed to re-key vault:', e);
+      new Notice(`Failed to apply URL secret: ${e instanceof Error ? e.message : 'Unknown error'}`);
+    }
+  }
+
   getObsidianThemeMode(): 'light' | 'dark' {
     return document.body.classList.contains('theme-dark') ? 'dark' : 'light';
   }
@@ -202,118 +357,334 @@ export default class NoteSharePlugin extends Plugin {
     }
   }
 
-  async shareNote(file: TFile, includeLinks = false): Promise<void> {
+  async shareNote(file: TFile, includeLinks = false, traversal?: LinkTraversal): Promise<void> {
     if (!this.settings.serverUrl || !this.settings.apiKey) {
       new Notice('Please configure server URL and API key in settings');
       return;
     }
 
+    if (!this.isShareable(file)) {
+      new Notice(`"${file.basename}" has share: false in its properties`);
+      return;
+    }
+
     try {
-      const title = file.basename;
+      const title = this.shareTitle(file);
       const vault = this.getEffectiveVaultSlug();
       const titleSlug = slugify(title);
 
       // Compute deterministic hash and URL immediately
-      const hash = await generateNoteHash(vault, title);
+      const hash = await this.computeNoteHash(title);
       const url = `${this.settings.serverUrl}/g/${vault}/${titleSlug}/${hash}`;
 
       // Copy to clipboard FIRST - instant feedback
       await navigator.clipboard.writeText(url);
       new Notice(`✓ URL copied`);
 
-      // Create shared semaphore for all parallel operations
-      const semaphore = new Semaphore();
+      // A manual share supersedes any pending auto-sync
+      this.autoSync.cancel(file.path);
+      const result = await this.uploadNote(file, includeLinks, traversal);
 
-      // Read main note content
-      const content = await this.app.vault.read(file);
-
-      // Start main note images FIRST (queued first in semaphore)
-      const mainImagesPromise = processImages(this.app, this.api, file, content, vault, semaphore);
+      // Worker uses a different URL secret - the copied link is wrong
+      if (result.hash !== hash) {
+        await navigator.clipboard.writeText(result.url);
+        new Notice('URL secret differs from the server - copied the server URL instead. Re-apply the URL secret in settings.', 8000);
+      }
 
-      // Start linked notes processing (queued after main images)
-      const linkedNotesPromise = includeLinks
-        ? this.getLinkedNotes(file, semaphore)
-        : Promise.resolve([]);
+      new Notice(`✓ Note uploaded`);
+    } catch (e) {
+      console.error('[NoteShare] Failed to share note:', e);
+      new Notice(`Failed to share note: ${e instanceof Error ? e.message : 'Unknown error'}`);
+    }
+  }
 
-      // Wait for main note images first
-      const processedContent = await mainImagesPromise;
+  /**
+   * Choose link depth and filters, preview the resulting set, then share it
+   */
+  async shareNoteWithLinkGraph(file: TFile): Promise<void> {
+    if (!this.settings.serverUrl || !this.settings.apiKey) {
+      new Notice('Please configure server URL and API key in settings');
+      return;
+    }
 
-      const request: ShareRequest = {
-        vault,
-        title,
-        content: processedContent,
-        retentionDays: this.settings.autoDeleteDays || 0,
-      };
+    if (!this.isShareable(file)) {
+      new Notice(`"${file.basename}" has share: false in its properties`);
+      return;
+    }
 
-      // Wait for linked notes
-      const linkedNotes = await linkedNotesPromise;
-      if (linkedNotes.length > 0) {
-        request.linkedNotes = linkedNotes;
+    const content = this.redact(await this.app.vault.read(file));
+    new LinkedNotesModal(
+      this.app,
+      file.basename,
+      this.settings.linkTraversal,
+      (traversal) => this.collectLinkedNotes(file, content, traversal),
+      async (traversal) => {
+        if (!traversal) return;
+        this.settings.linkTraversal = traversal;
+        await this.saveSettings();
+        await this.shareNote(file, true, traversal);
       }
+    ).open();
+  }
 
-      // Upload note
-      await this.api.shareNote(request);
+  /**
+   * Process images and linked notes, upload, and register for auto-sync.
+   * Shared by manual shares and auto-sync; throws on failure.
+   * Linked notes default to direct links only.
+   */
+  async uploadNote(file: TFile, includeLinks: boolean, traversal?: LinkTraversal): Promise<ShareResponse> {
+    if (!this.isShareable(file)) {
+      throw new Error(`${file.path} has share: false in its properties`);
+    }
+    if (file.extension === 'canvas') {
+      return this.uploadCanvas(file);
+    }
 
-      // Register as shared note for auto-sync
-      if (!this.settings.sharedNotes) {
-        this.settings.sharedNotes = {};
-      }
-      this.settings.sharedNotes[file.path] = {
-        filePath: file.path,
-        titleSlug,
-        hash,
-        lastSynced: new Date().toISOString(),
-      };
-      await this.saveSettings();
-      console.log(`[NoteShare] Registered for auto-sync: ${file.path}`);
+    const title = file.basename;
+    const vault = this.getEffectiveVaultSlug();
+    const hash = await this.computeNoteHash(title);
 
-      new Notice(`✓ Note uploaded`);
+    // Create shared semaphore for all parallel operations
+    const semaphore = new Semaphore();
 
-      // Refresh sidebar if open
-      const views = this.app.workspace.getLeavesOfType(VIEW_TYPE_SHARED_NOTES);
-      for (const leaf of views) {
-        const view = leaf.view as SharedNotesView;
-        await view.refresh();
-      }
-    } catch (e) {
-      console.error('[NoteShare] Failed to share note:', e);
-      new Notice(`Failed to share note: ${e instanceof Error ? e.message : 'Unknown error'}`);
+    // Read main note content (private text never leaves the machine)
+    const content = await this.transclude(file, this.redact(await this.app.vault.read(file)));
+
+    // Start main note images FIRST (queued first in semaphore)
+    const mainImagesPromise = processImages(this.app, this.api, file, content, vault, hash, semaphore);
+
+    // Start linked notes processing (queued after main images)
+    const linkedNotesPromise = includeLinks
+      ? this.getLinkedNotes(file, content, semaphore, traversal ?? DEFAULT_LINK_TRAVERSAL)
+      : Promise.resolve(undefined);
+
+    // Wait for main note images first
+    const processedContent = await mainImagesPromise;
+
+    const request: ShareRequest = {
+      vault,
+      title,
+      content: processedContent,
+      retentionDays: this.settings.autoDeleteDays || 0,
+    };
+
+    // Wait for linked notes
+    const linked = await linkedNotesPromise;
+    if (linked && linked.notes.length > 0) {
+      request.linkedNotes = linked.notes;
+      request.links = linked.links;
     }
+
+    // Upload note (server hash is authoritative)
+    const result = await this.api.shareNote(request);
+    await this.registerShared(file, result, includeLinks, traversal);
+    return result;
+  }
+
+  /**
+   * Upload a canvas with the notes and media on it. Text and note cards are
+   * redacted like notes; the notes are shared too so cards link to them.
+   */
+  private async uploadCanvas(file: TFile): Promise<ShareResponse> {
+    const title = this.shareTitle(file);
+    const vault = this.getEffectiveVaultSlug();
+    const hash = await this.computeNoteHash(title);
+    const semaphore = new Semaphore();
+
+    const { canvas, notes } = await buildSharedCanvas(this.app, file, {
+      prepareText: (text) => this.transclude(file, this.redact(text)),
+      uploadMedia: (markdown) => processImages(this.app, this.api, file, markdown, vault, hash, semaphore),
+      readNote: async (note) => {
+        console.log(`[NoteShare] Processing canvas note: ${note.path}`);
+        const content = await this.transclude(note, this.redact(await this.app.vault.read(note)));
+        const noteHash = await this.computeNoteHash(note.basename);
+        return processImages(this.app, this.api, note, content, vault, noteHash, semaphore);
+      },
+      isShareable: (note) => this.isShareable(note),
+      isProtected: (note) => this.isProtected(note),
+    });
+
+    const result = await this.api.shareNote({
+      vault,
+      title,
+      // Pretty-printed so revision diffs are readable
+      content: JSON.stringify(canvas, null, 2),
+      kind: 'canvas',
+      linkedNotes: notes.length > 0 ? notes : undefined,
+      retentionDays: this.settings.autoDeleteDays || 0,
+    });
+    await this.registerShared(file, result, false);
+    return result;
   }
 
-  async getLinkedNotes(file: TFile, semaphore: Semaphore): Promise<{ title: string; content: string }[]> {
-    const cache = this.app.metadataCache.getFileCache(file);
+  /**
+   * Register a shared note or canvas for auto-sync (keeps the per-note opt-out and protection)
+   */
+  private async registerShared(file: TFile, result: ShareResponse, includeLinks: boolean, traversal?: LinkTraversal): Promise<void> {
+    if (!this.settings.sharedNotes) {
+      this.settings.sharedNotes = {};
+    }
+    const previous = this.settings.sharedNotes[file.path];
+    this.settings.sharedNotes[file.path] = {
+      filePath: file.path,
+      titleSlug: result.titleSlug,
+      hash: result.hash,
+      lastSynced: new Date().toISOString(),
+      includeLinks,
+      linkTraversal: includeLinks ? traversal : undefined,
+      autoSync: previous?.autoSync,
+      protected: previous?.protected,
+    };
+    await this.saveSettings();
+    console.log(`[NoteShare] Registered for auto-sync: ${file.path}`);
+
+    await this.refreshSidebar();
+  }
 
-    if (!cache?.links) return [];
+  async toggleAutoSync(file: TFile): Promise<void> {
+    const entry = this.settings.sharedNotes?.[file.path];
+    if (!entry) return;
 
-    const vault = this.getEffectiveVaultSlug();
+    const enabled = entry.autoSync === false;
+    entry.autoSync = enabled;
+    if (!enabled) this.autoSync.cancel(file.path);
+    await this.saveSettings();
 
-    // Build tasks for all linked notes
-    type LinkedNoteResult = { title: string; content: string } | undefined;
-    const tasks: Promise<LinkedNoteResult>[] = [];
-
-    for (const link of cache.links) {
-      const linkedFile = this.app.metadataCache.getFirstLinkpathDest(link.link, file.path);
-
-      if (linkedFile instanceof TFile && linkedFile.extension === 'md') {
-        tasks.push(
-          semaphore.run(async () => {
-            console.log(`[NoteShare] Processing linked note: ${linkedFile.path}`);
-            const content = await this.app.vault.read(linkedFile);
-            // Pass same semaphore to processImages
-            const processedContent = await processImages(this.app, this.api, linkedFile, content, vault, semaphore);
-            return { title: linkedFile.basename, content: processedContent };
-          })
+    new Notice(`Auto-sync ${enabled ? 'enabled' : 'disabled'} for ${file.basename}`);
+  }
+
+  /**
+   * Prompt for and apply a password change (set, change or remove)
+   */
+  editPassword(titleSlug: string, hash: string, title: string, isProtected: boolean): void {
+    new PasswordModal(this.app, title, isProtected, async (password) => {
+      if (password === undefined) return;
+
+      try {
+        const vault = this.getEffectiveVaultSlug();
+        const { edgeCacheSeconds } = await this.api.setPassword(vault, titleSlug, hash, password);
+
+        const entry = Object.values(this.settings.sharedNotes || {}).find((n) => n.hash === hash);
+        if (entry) {
+          entry.protected = password !== null;
+          await this.saveSettings();
+        }
+
+        new Notice(
+          password === null
+            ? 'Password removed'
+            : `Password set. Copies cached in other regions may stay public for up to ${edgeCacheSeconds}s`
         );
+        await this.refreshSidebar();
+      } catch (e) {
+        console.error('[NoteShare] Failed to update password:', e);
+        new Notice(`Failed to update password: ${e instanceof Error ? e.message : 'Unknown error'}`);
       }
+    }).open();
+  }
+
+  async refreshSidebar(): Promise<void> {
+    const views = this.app.workspace.getLeavesOfType(VIEW_TYPE_SHARED_NOTES);
+    for (const leaf of views) {
+      const view = leaf.view as SharedNotesView;
+      await view.refresh();
     }
+  }
+
+  /**
+   * Markdown notes and canvases can be shared
+   */
+  isShareableType(file: TFile): boolean {
+    return file.extension === 'md' || file.extension === 'canvas';
+  }
+
+  /**
+   * Title a file is shared under. Canvases keep their extension so they never
+   * share a URL with a note of the same name.
+   */
+  shareTitle(file: TFile): string {
+    return file.extension === 'canvas' ? file.name : file.basename;
+  }
+
+  /**
+   * Notes opt out of sharing with a `share: false` property
+   */
+  isShareable(file: TFile): boolean {
+    return this.app.metadataCache.getFileCache(file)?.frontmatter?.share !== false;
+  }
 
-    // Run all in parallel (semaphore limits concurrency)
-    const results = await Promise.all(tasks);
-    return results.filter((n): n is { title: string; content: string } => n !== undefined);
+  /**
+   * Password-protected, by share-password or a password set from the sidebar
+   */
+  isProtected(file: TFile): boolean {
+    return (
+      !!this.settings.sharedNotes?.[file.path]?.protected ||
+      this.app.metadataCache.getFileCache(file)?.frontmatter?.['share-password'] != null
+    );
   }
 
-  onunload() {}
+  /**
+   * Remove %% comments %%, private sections and marked blocks before upload
+   */
+  redact(content: string): string {
+    return redactContent(content, {
+      headings: this.settings.privateHeadings,
+      markers: this.settings.privateMarkers,
+    });
+  }
+
+  /**
+   * Inline embedded notes (each redacted the same way as the note itself)
+   */
+  transclude(file: TFile, content: string): Promise<string> {
+    return transcludeNotes(this.app, file, content, {
+      redact: (text) => this.redact(text),
+      isShareable: (note) => this.isShareable(note),
+      isProtected: (note) => this.isProtected(note),
+    });
+  }
+
+  /**
+   * Notes within the traversal's reach, the shared note first
+   */
+  async collectLinkedNotes(file: TFile, content: string, traversal: LinkTraversal): Promise<LinkGraphNote[]> {
+    return walkLinkGraph(this.app, file, content, traversal, {
+      read: async (note) => this.redact(await this.app.vault.read(note)),
+      isShareable: (note) => this.isShareable(note),
+    });
+  }
+
+  /**
+   * Prepare linked notes for upload. Also returns the titles the shared note links to.
+   */
+  async getLinkedNotes(
+    file: TFile,
+    content: string,
+    semaphore: Semaphore,
+    traversal: LinkTraversal
+  ): Promise<{ notes: LinkedNote[]; links: string[] }> {
+    const [root, ...linked] = await this.collectLinkedNotes(file, content, traversal);
+    const vault = this.getEffectiveVaultSlug();
+
+    // Uploads inside processImages go through the semaphore; wrapping each note
+    // in it too could deadlock once every slot holds a note waiting on its images
+    const notes = await Promise.all(
+      linked.map(async (note) => {
+        console.log(`[NoteShare] Processing linked note: ${note.file.path}`);
+        const linkedContent = await this.transclude(note.file, note.content);
+        const linkedHash = await this.computeNoteHash(note.file.basename);
+        const processedContent = await processImages(this.app, this.api, note.file, linkedContent, vault, linkedHash, semaphore);
+        return { title: note.file.basename, content: processedContent, links: note.links };
+      })
+    );
+
+    return { notes, links: root.links };
+  }
+
+  onunload() {
+    this.autoSync?.clear();
+    this.folderShare?.clear();
+  }
 
   async loadSettings() {
     this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
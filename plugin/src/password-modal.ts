@@ -0,0 +1,71 @@
+import { App, Modal, Setting } from 'obsidian';
+
+/**
+ * Prompt for a note password. Resolves with the new password, null to remove
+ * protection, or undefined if the modal was dismissed.
+ */
+export class PasswordModal extends Modal {
+  private password = '';
+  private result: string | null | undefined = undefined;
+
+  constructor(
+    app: App,
+    private title: string,
+    private isProtected: boolean,
+    private onDone: (result: string | null | undefined) => void
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.createEl('h3', { text: `Password for "${this.title}"` });
+    contentEl.createEl('p', {
+      text: this.isProtected
+        ? 'This note is password protected. Enter a new password to change it.'
+        : 'Readers will need this password to view the shared note.',
+      cls: 'setting-item-description',
+    });
+
+    new Setting(contentEl)
+      .setName('Password')
+      .addText((text) => {
+        text.inputEl.type = 'password';
+        text.onChange((value) => (this.password = value));
+        text.inputEl.addEventListener('keydown', (e) => {
+          if (e.key === 'Enter' && this.password) {
+            this.submit(this.password);
+          }
+        });
+        window.setTimeout(() => text.inputEl.focus(), 0);
+      });
+
+    const buttons = new Setting(contentEl);
+    if (this.isProtected) {
+      buttons.addButton((button) =>
+        button
+          .setButtonText('Remove password')
+          .setWarning()
+          .onClick(() => this.submit(null))
+      );
+    }
+    buttons.addButton((button) =>
+      button
+        .setButtonText(this.isProtected ? 'Change password' : 'Set password')
+        .setCta()
+        .onClick(() => {
+          if (this.password) this.submit(this.password);
+        })
+    );
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    this.onDone(this.result);
+  }
+
+  private submit(result: string | null): void {
+    this.result = result;
+    this.close();
+  }
+}
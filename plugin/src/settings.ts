@@ -107,6 +107,86 @@ export class NoteShareSettingTab extends PluginSettingTab {
           })
       );
 
+    new Setting(containerEl)
+      .setName('Private headings')
+      .setDesc('Sections under these headings are removed before upload (one per line). %% comments %% are always removed.')
+      .addTextArea((text) =>
+        text
+          .setPlaceholder('Private')
+          .setValue(this.plugin.settings.privateHeadings.join('\n'))
+          .onChange(async (value) => {
+            this.plugin.settings.privateHeadings = value
+              .split('\n')
+              .map((line) => line.replace(/^#+\s*/, '').trim())
+              .filter(Boolean);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Private block markers')
+      .setDesc('Text between a start and end marker is removed before upload. One pair per line: start | end')
+      .addTextArea((text) =>
+        text
+          .setPlaceholder('<!-- private --> | <!-- /private -->')
+          .setValue(this.plugin.settings.privateMarkers.map((m) => `${m.start} | ${m.end}`).join('\n'))
+          .onChange(async (value) => {
+            this.plugin.settings.privateMarkers = value
+              .split('\n')
+              .map((line) => line.split(' | '))
+              .filter((parts) => parts.length === 2 && parts[0].trim() && parts[1].trim())
+              .map(([start, end]) => ({ start: start.trim(), end: end.trim() }));
+            await this.plugin.saveSettings();
+          })
+      );
+
+    let secretDraft = this.plugin.settings.hashSecret;
+    new Setting(containerEl)
+      .setName('URL secret')
+      .setDesc('Mixed into note URLs so they cannot be guessed from the vault and note title. Applying re-keys existing shared notes; their old URLs stop working.')
+      .addText((text) => {
+        text.inputEl.type = 'password';
+        text
+          .setPlaceholder('none')
+          .setValue(secretDraft)
+          .onChange((value) => {
+            secretDraft = value.trim();
+          });
+      })
+      .addButton((button) =>
+        button
+          .setButtonText('Apply')
+          .onClick(async () => {
+            if (secretDraft === this.plugin.settings.hashSecret) {
+              new Notice('URL secret unchanged');
+              return;
+            }
+            button.setDisabled(true);
+            button.setButtonText('Applying...');
+
+            try {
+              await this.plugin.rekeyVault(secretDraft);
+            } finally {
+              button.setDisabled(false);
+              button.setButtonText('Apply');
+            }
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Redirect old URLs after re-keying')
+      .setDesc(
+        'Old URLs keep working for 30 days after the URL secret changes. Anyone who guesses an old URL from the vault and note title is sent to the new one, so only enable this if the old links were already shared on purpose.'
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.rekeyRedirects)
+          .onChange(async (value) => {
+            this.plugin.settings.rekeyRedirects = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
     new Setting(containerEl)
       .setName('Auto-delete after (days)')
       .setDesc('Delete shared notes after N days (0 = never)')
@@ -119,5 +199,31 @@ export class NoteShareSettingTab extends PluginSettingTab {
             await this.plugin.saveSettings();
           })
       );
+
+    new Setting(containerEl)
+      .setName('Auto-sync')
+      .setDesc('Re-upload shared notes when you edit them (can be disabled per note from the file menu)')
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.autoSync)
+          .onChange(async (value) => {
+            this.plugin.settings.autoSync = value;
+            if (!value) this.plugin.autoSync.clear();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Auto-sync delay (seconds)')
+      .setDesc('Wait this long after the last edit before re-uploading')
+      .addText((text) =>
+        text
+          .setPlaceholder('10')
+          .setValue(String(this.plugin.settings.autoSyncDelay))
+          .onChange(async (value) => {
+            this.plugin.settings.autoSyncDelay = Math.max(1, parseInt(value) || 10);
+            await this.plugin.saveSettings();
+          })
+      );
   }
 }
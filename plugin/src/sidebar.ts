@@ -1,14 +1,44 @@
 import { ItemView, WorkspaceLeaf, Notice, setIcon } from 'obsidian';
 import type NoteSharePlugin from './main';
-import { SharedNote } from './types';
+import { NoteSort, SharedNote } from './types';
 
 export const VIEW_TYPE_SHARED_NOTES = 'shared-notes-view';
 
+// Notes fetched per page while scrolling
+const PAGE_SIZE = 50;
+
+// Wait after typing in the filter before asking the server
+const FILTER_DEBOUNCE_MS = 300;
+
+// Referring domains listed in a note's stats
+const TOP_REFERRERS = 5;
+
+const SORT_LABELS: Record<NoteSort, string> = {
+  created: 'Recently shared',
+  updated: 'Recently updated',
+  title: 'Title',
+  views: 'Most viewed (updated daily)',
+};
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+}
+
 export class SharedNotesView extends ItemView {
   plugin: NoteSharePlugin;
   notes: SharedNote[] = [];
   private list: HTMLElement | null = null;
   private searchInput: HTMLInputElement | null = null;
+  private sort: NoteSort = 'created';
+  // Next page of the current listing (undefined once everything is loaded)
+  private cursor: string | undefined;
+  private loading = false;
+  // Bumped on every refresh so pages of an earlier listing are dropped
+  private generation = 0;
+  private filterTimer: number | undefined;
+  private sentinel: HTMLElement | null = null;
+  private observer: IntersectionObserver | null = null;
 
   constructor(leaf: WorkspaceLeaf, plugin: NoteSharePlugin) {
     super(leaf);
@@ -32,6 +62,11 @@ export class SharedNotesView extends ItemView {
     await this.refresh();
   }
 
+  async onClose(): Promise<void> {
+    this.observer?.disconnect();
+    window.clearTimeout(this.filterTimer);
+  }
+
   private buildUI(): void {
     const container = this.containerEl.children[1];
     container.empty();
@@ -59,17 +94,38 @@ export class SharedNotesView extends ItemView {
     refreshBtn.setAttribute('aria-label', 'Refresh');
     refreshBtn.addEventListener('click', () => this.refresh());
 
-    // Search input
-    this.searchInput = container.createEl('input', {
+    // Filter (title prefix, or #tag) and sort, applied by the server
+    const controls = container.createEl('div', { cls: 'shared-notes-controls' });
+    this.searchInput = controls.createEl('input', {
       type: 'text',
-      placeholder: 'Filter notes...',
+      placeholder: 'Filter by title or #tag...',
       cls: 'shared-notes-search',
     });
-    this.searchInput.addEventListener('input', () => this.filterNotes());
+    this.searchInput.addEventListener('input', () => {
+      window.clearTimeout(this.filterTimer);
+      this.filterTimer = window.setTimeout(() => this.refresh(), FILTER_DEBOUNCE_MS);
+    });
+
+    const sortSelect = controls.createEl('select', { cls: 'dropdown shared-notes-sort' });
+    for (const [value, label] of Object.entries(SORT_LABELS)) {
+      sortSelect.createEl('option', { value, text: label });
+    }
+    sortSelect.value = this.sort;
+    sortSelect.addEventListener('change', () => {
+      this.sort = sortSelect.value as NoteSort;
+      this.refresh();
+    });
 
     // Notes list with event delegation
     this.list = container.createEl('div', { cls: 'shared-notes-list' });
     this.list.addEventListener('click', (e) => this.handleListClick(e));
+
+    // Next page loads when the end of the list scrolls into view
+    this.sentinel = container.createEl('div', { cls: 'shared-notes-sentinel' });
+    this.observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) this.loadMore();
+    });
+    this.observer.observe(this.sentinel);
   }
 
   private async handleListClick(e: Event): Promise<void> {
@@ -88,7 +144,36 @@ export class SharedNotesView extends ItemView {
     const vault = this.plugin.getEffectiveVaultSlug();
 
     if (btn.classList.contains('stats-btn')) {
-      await this.toggleStats(item, hash);
+      await this.toggleStats(item, vault, hash);
+      return;
+    }
+
+    if (btn.classList.contains('history-btn')) {
+      await this.toggleHistory(item, vault, titleSlug, hash);
+      return;
+    }
+
+    if (btn.classList.contains('revision-view-btn') || btn.classList.contains('revision-diff-btn')) {
+      const url = btn.dataset.url;
+      if (url) window.open(url);
+      return;
+    }
+
+    if (btn.classList.contains('revision-restore-btn')) {
+      const revision = Number(btn.dataset.revision);
+      try {
+        await this.plugin.api.restoreRevision(vault, titleSlug, hash, revision);
+        new Notice(`Restored revision ${revision}`);
+        item.querySelector('.shared-notes-history')?.remove();
+        await this.toggleHistory(item, vault, titleSlug, hash);
+      } catch (e) {
+        new Notice('Failed to restore revision');
+      }
+      return;
+    }
+
+    if (btn.classList.contains('password-btn')) {
+      this.plugin.editPassword(titleSlug, hash, title || titleSlug, item.dataset.protected === 'true');
       return;
     }
 
@@ -102,25 +187,20 @@ export class SharedNotesView extends ItemView {
       new Notice('Markdown link copied');
     } else if (btn.classList.contains('delete-btn')) {
       try {
-        await this.plugin.api.deleteNote(vault, titleSlug, hash);
-        new Notice('Note unshared');
-        await this.refresh();
+        const { edgeCacheSeconds } = await this.plugin.api.deleteNote(vault, titleSlug, hash);
+        new Notice(`Note unshared. Copies cached in other regions may stay visible for up to ${edgeCacheSeconds}s`);
+        item.remove();
+        this.notes = this.notes.filter((n) => n.hash !== hash);
+        if (this.notes.length === 0 && !this.cursor) this.showEmpty();
       } catch (e) {
         new Notice('Failed to delete note');
       }
     }
   }
 
-  private filterNotes(): void {
-    if (!this.list || !this.searchInput) return;
-
-    const query = this.searchInput.value.toLowerCase();
-    this.list.querySelectorAll('.shared-notes-item').forEach((item) => {
-      const title = (item as HTMLElement).dataset.title?.toLowerCase() || '';
-      (item as HTMLElement).style.display = title.includes(query) ? '' : 'none';
-    });
-  }
-
+  /**
+   * Reload the list from the first page (filter, sort or shared notes changed)
+   */
   async refresh(): Promise<void> {
     if (!this.list) return;
 
@@ -129,53 +209,80 @@ export class SharedNotesView extends ItemView {
       return;
     }
 
-    try {
-      const vault = this.plugin.getEffectiveVaultSlug();
-      const newNotes = await this.plugin.api.listNotes(vault);
-
-      // Build map of existing DOM items by hash for differential updates
-      const existingItems = new Map<string, HTMLElement>();
-      this.list.querySelectorAll('.shared-notes-item').forEach((el) => {
-        const hash = (el as HTMLElement).dataset.hash;
-        if (hash) existingItems.set(hash, el as HTMLElement);
-      });
+    this.generation++;
+    this.notes = [];
+    this.cursor = undefined;
+    this.loading = false;
+    await this.loadPage(true);
+  }
 
-      // Track which items are still valid
-      const validHashes = new Set<string>();
+  private async loadMore(): Promise<void> {
+    if (this.loading || !this.cursor) return;
+    await this.loadPage(false);
+  }
 
-      // Update or create items
-      for (const note of newNotes) {
-        validHashes.add(note.hash);
+  private async loadPage(first: boolean): Promise<void> {
+    if (!this.list) return;
 
-        if (existingItems.has(note.hash)) {
-          // Item already exists, keep it
-          existingItems.delete(note.hash);
-        } else {
-          // Create new item
-          this.createNoteItem(note);
-        }
-      }
+    const generation = this.generation;
+    const query = this.searchInput?.value.trim() || '';
+    this.loading = true;
 
-      // Remove items no longer in list
-      existingItems.forEach((el) => el.remove());
+    try {
+      const vault = this.plugin.getEffectiveVaultSlug();
+      const page = await this.plugin.api.listNotes(vault, {
+        sort: this.sort,
+        limit: PAGE_SIZE,
+        cursor: first ? undefined : this.cursor,
+        ...(query.startsWith('#') ? { tag: query.slice(1) } : { prefix: query }),
+      });
+      // A newer listing started while this page was loading
+      if (generation !== this.generation) return;
 
-      // Show empty message if no notes
-      if (newNotes.length === 0) {
-        this.list.innerHTML = '<p class="shared-notes-empty">No shared notes yet. Right-click a note to share it.</p>';
+      if (first) this.list.empty();
+      for (const note of page.notes) {
+        this.createNoteItem(note);
       }
+      this.notes.push(...page.notes);
+      this.cursor = page.cursor;
 
-      this.notes = newNotes;
-
-      // Re-apply filter if search has content
-      if (this.searchInput?.value) {
-        this.filterNotes();
+      if (this.notes.length === 0) {
+        this.showEmpty();
       }
     } catch (e) {
-      this.list.innerHTML = '<p class="shared-notes-error">Failed to load shared notes. Check your settings.</p>';
+      if (generation !== this.generation) return;
+      this.cursor = undefined;
+      if (first) {
+        this.list.innerHTML = '<p class="shared-notes-error">Failed to load shared notes. Check your settings.</p>';
+      } else {
+        new Notice('Failed to load more shared notes');
+      }
+    } finally {
+      if (generation === this.generation) this.loading = false;
+    }
+
+    // The page did not fill the view: keep loading while the end is visible
+    if (generation === this.generation && this.cursor && this.isSentinelVisible()) {
+      await this.loadMore();
     }
   }
 
-  private async toggleStats(item: HTMLElement, hash: string): Promise<void> {
+  private isSentinelVisible(): boolean {
+    if (!this.sentinel) return false;
+    const rect = this.sentinel.getBoundingClientRect();
+    const view = this.containerEl.getBoundingClientRect();
+    return rect.top <= view.bottom;
+  }
+
+  private showEmpty(): void {
+    if (!this.list) return;
+    const filtered = !!this.searchInput?.value.trim();
+    this.list.innerHTML = filtered
+      ? '<p class="shared-notes-empty">No shared notes match the filter.</p>'
+      : '<p class="shared-notes-empty">No shared notes yet. Right-click a note to share it.</p>';
+  }
+
+  private async toggleStats(item: HTMLElement, vault: string, hash: string): Promise<void> {
     const existing = item.querySelector('.shared-notes-stats') as HTMLElement | null;
     if (existing) {
       existing.remove();
@@ -186,7 +293,7 @@ export class SharedNotesView extends ItemView {
     panel.setText('Loading…');
 
     try {
-      const stats = await this.plugin.api.getStats(hash);
+      const stats = await this.plugin.api.getStats(vault, hash);
       panel.empty();
 
       const summary = panel.createEl('div', { cls: 'shared-notes-stats-summary' });
@@ -197,6 +304,24 @@ export class SharedNotesView extends ItemView {
         return;
       }
 
+      const recent = stats.summary;
+      const details = [
+        `${recent.views} view${recent.views === 1 ? '' : 's'} · ~${recent.visitorDays} visitor-day${recent.visitorDays === 1 ? '' : 's'} (last 30 days)`,
+      ];
+      if (recent.avgReadSeconds !== undefined) details.push(`Avg. read time ${formatDuration(recent.avgReadSeconds)}`);
+      if (recent.avgReadDepth !== undefined) details.push(`Avg. scroll depth ${recent.avgReadDepth}%`);
+      for (const line of details) {
+        panel.createEl('div', { cls: 'shared-notes-stats-detail', text: line });
+      }
+
+      const referrers = recent.referrers.slice(0, TOP_REFERRERS);
+      if (referrers.length > 0) {
+        panel.createEl('div', {
+          cls: 'shared-notes-stats-detail',
+          text: 'Top referrers: ' + referrers.map((r) => `${r.domain} (${r.views})`).join(', '),
+        });
+      }
+
       const list = panel.createEl('ul', { cls: 'shared-notes-stats-list' });
       for (const v of stats.views.slice(0, 20)) {
         const li = list.createEl('li');
@@ -208,6 +333,57 @@ export class SharedNotesView extends ItemView {
     }
   }
 
+  private async toggleHistory(item: HTMLElement, vault: string, titleSlug: string, hash: string): Promise<void> {
+    const existing = item.querySelector('.shared-notes-history') as HTMLElement | null;
+    if (existing) {
+      existing.remove();
+      return;
+    }
+
+    const panel = item.createEl('div', { cls: 'shared-notes-history' });
+    panel.setText('Loading…');
+
+    try {
+      const revisions = await this.plugin.api.listRevisions(vault, titleSlug, hash);
+      panel.empty();
+
+      const latest = revisions.find((r) => r.current)?.revision ?? 1;
+      const noteUrl = this.plugin.api.buildNoteUrl(vault, titleSlug, hash);
+
+      panel.createEl('div', {
+        cls: 'shared-notes-stats-summary',
+        text: `${revisions.length} revision${revisions.length === 1 ? '' : 's'}`,
+      });
+
+      const list = panel.createEl('ul', { cls: 'shared-notes-stats-list' });
+      for (const rev of revisions) {
+        const li = list.createEl('li', { cls: 'shared-notes-revision' });
+        const when = new Date(rev.updatedAt).toLocaleString();
+        li.createEl('span', { text: `#${rev.revision} · ${when}${rev.current ? ' · current' : ''}` });
+
+        const actions = li.createEl('span', { cls: 'shared-notes-revision-actions' });
+        const viewBtn = actions.createEl('button', { cls: 'shared-notes-btn revision-view-btn' });
+        setIcon(viewBtn, 'eye');
+        viewBtn.setAttribute('aria-label', 'View revision');
+        viewBtn.dataset.url = rev.current ? noteUrl : `${noteUrl}/rev/${rev.revision}`;
+
+        if (rev.current) continue;
+
+        const diffBtn = actions.createEl('button', { cls: 'shared-notes-btn revision-diff-btn' });
+        setIcon(diffBtn, 'git-compare');
+        diffBtn.setAttribute('aria-label', 'Compare with current');
+        diffBtn.dataset.url = `${noteUrl}/diff/${rev.revision}/${latest}`;
+
+        const restoreBtn = actions.createEl('button', { cls: 'shared-notes-btn revision-restore-btn' });
+        setIcon(restoreBtn, 'rotate-ccw');
+        restoreBtn.setAttribute('aria-label', 'Restore this revision');
+        restoreBtn.dataset.revision = String(rev.revision);
+      }
+    } catch (e) {
+      panel.setText('Failed to load revisions');
+    }
+  }
+
   private createNoteItem(note: SharedNote): void {
     if (!this.list) return;
 
@@ -217,9 +393,11 @@ export class SharedNotesView extends ItemView {
     item.dataset.title = note.title;
 
     const info = item.createEl('div', { cls: 'shared-notes-info' });
-    info.createEl('span', { text: note.title, cls: 'shared-notes-title' });
+    const titleEl = info.createEl('span', { text: note.title, cls: 'shared-notes-title' });
+    const lockEl = titleEl.createEl('span', { cls: 'shared-notes-lock' });
+    setIcon(lockEl, 'lock');
     info.createEl('span', {
-      text: new Date(note.createdAt).toLocaleDateString(),
+      text: this.itemDetail(note),
       cls: 'shared-notes-date',
     });
 
@@ -230,6 +408,14 @@ export class SharedNotesView extends ItemView {
     setIcon(statsBtn, 'bar-chart-2');
     statsBtn.setAttribute('aria-label', 'View stats');
 
+    // Revision history button
+    const historyBtn = actions.createEl('button', { cls: 'shared-notes-btn history-btn' });
+    setIcon(historyBtn, 'history');
+    historyBtn.setAttribute('aria-label', 'Revision history');
+
+    // Password button
+    actions.createEl('button', { cls: 'shared-notes-btn password-btn' });
+
     // Copy link button
     const copyBtn = actions.createEl('button', { cls: 'shared-notes-btn copy-btn' });
     setIcon(copyBtn, 'copy');
@@ -246,6 +432,31 @@ export class SharedNotesView extends ItemView {
     });
     setIcon(deleteBtn, 'trash');
     deleteBtn.setAttribute('aria-label', 'Delete');
+
+    this.setProtected(item, !!note.protected);
+  }
+
+  /**
+   * Date or view count shown under the title, following the sort order
+   */
+  private itemDetail(note: SharedNote): string {
+    if (this.sort === 'views') {
+      const views = note.views || 0;
+      return `${views} view${views === 1 ? '' : 's'}`;
+    }
+    const date = this.sort === 'updated' ? note.updatedAt || note.createdAt : note.createdAt;
+    return new Date(date).toLocaleDateString();
+  }
+
+  private setProtected(item: HTMLElement, isProtected: boolean): void {
+    item.dataset.protected = String(isProtected);
+    item.toggleClass('is-protected', isProtected);
+
+    const passwordBtn = item.querySelector('.password-btn') as HTMLElement | null;
+    if (passwordBtn) {
+      setIcon(passwordBtn, isProtected ? 'lock' : 'unlock');
+      passwordBtn.setAttribute('aria-label', isProtected ? 'Change or remove password' : 'Set password');
+    }
   }
 
 }
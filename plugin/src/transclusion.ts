@@ -0,0 +1,126 @@
+import { App, TFile, getLinkpath } from 'obsidian';
+import { extractBlock, extractSection, stripFrontmatter } from '@obsidian-note-share/shared';
+import { OBSIDIAN_EMBED_REGEX } from './image-processing';
+
+// How many embeds deep notes are inlined; deeper embeds become links
+export const MAX_EMBED_DEPTH = 4;
+
+// An embed alone on its line, optionally inside a quote/callout or indented under a list item
+const BLOCK_EMBED_REGEX = /^([ \t>]*)!\[\[([^\]|]+)(?:\|([^\]]+))?\]\][ \t]*$/gm;
+
+export interface TransclusionOptions {
+  /** Redaction applied to every embedded note before it is inlined */
+  redact: (content: string) => string;
+  /** Notes with share: false are linked, never inlined */
+  isShareable: (file: TFile) => boolean;
+  /** Password-protected notes are linked too: inlined, they would be readable without it */
+  isProtected: (file: TFile) => boolean;
+}
+
+/**
+ * Inline ![[Note]], ![[Note#Section]] and ![[Note#^block]] embeds as
+ * markdown-embed blocks. Embeds nest up to MAX_EMBED_DEPTH; cycles, missing
+ * targets, protected notes and embeds in running text are left as plain wikilinks.
+ * Media embeds are left for processImages.
+ */
+export async function transcludeNotes(
+  app: App,
+  file: TFile,
+  content: string,
+  options: TransclusionOptions,
+  stack: string[] = [`${file.path}#`] // notes being embedded, outermost first
+): Promise<string> {
+  const replacements = new Map<string, string>();
+
+  for (const match of content.matchAll(BLOCK_EMBED_REGEX)) {
+    const [original, prefix, target, alias] = match;
+    if (replacements.has(original)) continue;
+
+    const embedded = await embedNote(app, file, target, options, stack);
+    if (embedded !== undefined) {
+      replacements.set(original, embedBlock(target.trim(), alias?.trim(), embedded, prefix));
+    }
+  }
+
+  BLOCK_EMBED_REGEX.lastIndex = 0;
+  content = content.replace(BLOCK_EMBED_REGEX, (match) => replacements.get(match) ?? match);
+
+  return content.replace(OBSIDIAN_EMBED_REGEX, (match, target: string, alias?: string) => {
+    const linked = resolveEmbed(app, file, target);
+    if (linked === 'media') {
+      // Nested notes resolve their media relative to themselves
+      const media = app.metadataCache.getFirstLinkpathDest(getLinkpath(target), file.path);
+      return stack.length > 1 && media ? `![[${media.path}${alias ? `|${alias}` : ''}]]` : match;
+    }
+    return `[[${target}${alias ? `|${alias}` : ''}]]`;
+  });
+}
+
+/**
+ * 'media' for attachments, the note for markdown targets, undefined if missing
+ */
+function resolveEmbed(app: App, file: TFile, target: string): TFile | 'media' | undefined {
+  const linkpath = getLinkpath(target);
+  const resolved = linkpath ? app.metadataCache.getFirstLinkpathDest(linkpath, file.path) : file;
+  if (resolved) return resolved.extension === 'md' ? resolved : 'media';
+
+  // Unresolved attachments keep their embed syntax (processImages shows a placeholder)
+  const ext = linkpath.match(/\.([a-z0-9]+)$/i)?.[1].toLowerCase();
+  return ext && ext !== 'md' ? 'media' : undefined;
+}
+
+/**
+ * Redacted, recursively transcluded content of an embed target, or undefined
+ * if it should stay a link
+ */
+async function embedNote(
+  app: App,
+  file: TFile,
+  target: string,
+  options: TransclusionOptions,
+  stack: string[]
+): Promise<string | undefined> {
+  const note = resolveEmbed(app, file, target);
+  if (!(note instanceof TFile) || !options.isShareable(note)) return undefined;
+  // A note's embeds of its own sections are behind its own password
+  if (note !== file && options.isProtected(note)) return undefined;
+
+  const hashIndex = target.indexOf('#');
+  const subpath = hashIndex === -1 ? '' : target.slice(hashIndex + 1).trim();
+  const key = `${note.path}#${subpath}`;
+  if (stack.includes(key) || stack.length > MAX_EMBED_DEPTH) return undefined;
+
+  const content = stripFrontmatter(options.redact(await app.vault.cachedRead(note)));
+  const extracted = !subpath
+    ? content
+    : subpath.startsWith('^')
+      ? extractBlock(content, subpath.slice(1))
+      : extractSection(content, subpath.split('#').filter((h) => h.trim()));
+  if (extracted === undefined) return undefined;
+
+  console.log(`[NoteShare] Embedding ${key}`);
+  return transcludeNotes(app, note, extracted, options, [...stack, key]);
+}
+
+/**
+ * Markup for an embedded note; the title is a wikilink so the worker links it
+ * to the full note when that is shared
+ */
+function embedBlock(target: string, alias: string | undefined, body: string, prefix: string): string {
+  const title = alias ? `${target}|${alias}` : target;
+  return [
+    '<div class="markdown-embed">',
+    '<div class="markdown-embed-title">',
+    '',
+    `[[${title}]]`,
+    '',
+    '</div>',
+    '<div class="markdown-embed-content">',
+    '',
+    ...body.split('\n'),
+    '',
+    '</div>',
+    '</div>',
+    '',
+  ].map((line) => prefix + line).join('\n');
+}
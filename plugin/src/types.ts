@@ -5,25 +5,84 @@ export type {
   LinkedNote,
   ShareRequest,
   ShareResponse,
+  SharedCanvas,
+  SharedCanvasNode,
+  SharedCanvasEdge,
+  CanvasSide,
+  CollectionRequest,
+  CollectionResponse,
+  PasswordRequest,
+  NoteChangeResponse,
+  NoteRevision,
+  NoteSort,
+  SharedNote,
+  NoteListResponse,
+  NoteStats,
+  StatsBucket,
+  StatsGranularity,
+  RecentView,
+  RedactionMarker,
+  RekeyRequest,
+  RekeyResponse,
   ThemeSyncRequest,
 } from '@obsidian-note-share/shared';
 
 // Plugin-specific types
 
+import type { RedactionMarker } from '@obsidian-note-share/shared';
+
 export interface SharedNoteEntry {
   filePath: string;
   titleSlug: string;
   hash: string;
   lastSynced: string;
+  includeLinks?: boolean; // share options reused by auto-sync
+  linkTraversal?: LinkTraversal; // how far linked notes were followed (default: direct links)
+  autoSync?: boolean; // false = opted out of auto-sync
+  protected?: boolean; // readers need a password
+}
+
+export interface SharedFolderEntry {
+  folderPath: string; // '' = whole vault
+  slug: string;
+  hash: string;
+  lastSynced: string;
+}
+
+/**
+ * Which linked notes are shared along with a note
+ */
+export interface LinkTraversal {
+  depth: number; // hops from the shared note (1 = direct links only)
+  includeFolders: string[]; // only notes in these folders ([] = any)
+  excludeFolders: string[];
+  includeTags: string[]; // only notes with one of these tags ([] = any)
+  excludeTags: string[];
 }
 
+export const DEFAULT_LINK_TRAVERSAL: LinkTraversal = {
+  depth: 1,
+  includeFolders: [],
+  excludeFolders: [],
+  includeTags: [],
+  excludeTags: [],
+};
+
 export interface NoteShareSettings {
   serverUrl: string;
   apiKey: string;
   vaultName: string;
   autoDeleteDays: number; // 0 = never, else days until auto-delete
+  autoSync: boolean; // re-share shared notes when edited
+  autoSyncDelay: number; // seconds to wait after the last edit
   sharedNotes: Record<string, SharedNoteEntry>; // keyed by filePath
+  sharedFolders: Record<string, SharedFolderEntry>; // folders published as collections, keyed by folderPath
   lastThemeHash?: string; // hash of last synced theme
+  hashSecret: string; // URL secret mixed into note hashes ('' = none)
+  rekeyRedirects: boolean; // old URLs redirect for a while after the secret changes (opt-in)
+  privateHeadings: string[]; // sections under these headings are never uploaded
+  privateMarkers: RedactionMarker[]; // blocks between these markers are never uploaded
+  linkTraversal: LinkTraversal; // last used recursive linked-note options
 }
 
 export const DEFAULT_SETTINGS: NoteShareSettings = {
@@ -31,16 +90,17 @@ export const DEFAULT_SETTINGS: NoteShareSettings = {
   apiKey: '',
   vaultName: '',
   autoDeleteDays: 0,
+  autoSync: true,
+  autoSyncDelay: 10,
+  hashSecret: '',
+  rekeyRedirects: false,
+  privateHeadings: ['Private'],
+  privateMarkers: [{ start: '<!-- private -->', end: '<!-- /private -->' }],
+  linkTraversal: DEFAULT_LINK_TRAVERSAL,
   sharedNotes: {},
+  sharedFolders: {},
 };
 
-export interface SharedNote {
-  titleSlug: string;
-  hash: string;
-  title: string;
-  createdAt: string;
-}
-
 export interface ImageUploadResponse {
   url: string;
   key: string;
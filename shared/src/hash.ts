@@ -3,11 +3,26 @@ import { HASH_BYTES } from './constants';
 /**
  * Generate deterministic hash from vault + title
  * Same note always gets same URL, re-sharing updates content
+ * With a secret, the hash is an HMAC so URLs can't be derived from vault + title alone
  */
-export async function generateNoteHash(vault: string, title: string): Promise<string> {
+export async function generateNoteHash(vault: string, title: string, secret?: string): Promise<string> {
   const encoder = new TextEncoder();
   const data = encoder.encode(`${vault}:${title}`);
-  const hashBuffer = await crypto.subtle.digest('SHA-256', data);
+
+  let hashBuffer: ArrayBuffer;
+  if (secret) {
+    const key = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+    hashBuffer = await crypto.subtle.sign('HMAC', key, data);
+  } else {
+    hashBuffer = await crypto.subtle.digest('SHA-256', data);
+  }
+
   const hashArray = Array.from(new Uint8Array(hashBuffer));
   return hashArray
     .slice(0, HASH_BYTES)
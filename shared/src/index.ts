@@ -4,6 +4,8 @@ export { HASH_BYTES } from './constants';
 // Utilities
 export { slugify } from './slug';
 export { generateNoteHash } from './hash';
+export { redactContent, stripComments, stripHeadingSections, stripMarkedBlocks } from './redact';
+export { extractBlock, extractSection, stripFrontmatter } from './sections';
 
 // Types
 export type {
@@ -12,5 +14,25 @@ export type {
   LinkedNote,
   ShareRequest,
   ShareResponse,
+  SharedCanvas,
+  SharedCanvasNode,
+  SharedCanvasEdge,
+  CanvasSide,
+  CollectionRequest,
+  CollectionResponse,
+  PasswordRequest,
+  NoteChangeResponse,
+  NoteRevision,
+  NoteSort,
+  SharedNote,
+  NoteListResponse,
+  NoteStats,
+  StatsBucket,
+  StatsGranularity,
+  RecentView,
+  RekeyRequest,
+  RekeyResponse,
+  RedactionMarker,
+  RedactionOptions,
   ThemeSyncRequest,
 } from './types';
@@ -0,0 +1,140 @@
+import type { RedactionMarker, RedactionOptions } from './types';
+
+const FENCE_REGEX = /^\s*(`{3,}|~{3,})/;
+export const HEADING_REGEX = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+
+/**
+ * Tracks fenced code blocks while walking lines
+ */
+export class FenceTracker {
+  private fence: string | null = null;
+
+  /** Returns true if the line is inside (or opens/closes) a fenced code block */
+  update(line: string): boolean {
+    const match = line.match(FENCE_REGEX);
+    if (this.fence) {
+      if (match && match[1][0] === this.fence[0] && match[1].length >= this.fence.length) {
+        this.fence = null;
+      }
+      return true;
+    }
+    if (match) {
+      this.fence = match[1];
+      return true;
+    }
+    return false;
+  }
+}
+
+/**
+ * Remove Obsidian %% comments %% (inline or spanning lines).
+ * Code fences and inline code are left alone; an unclosed %% hides the rest of the note.
+ */
+export function stripComments(content: string): string {
+  if (!content.includes('%%')) return content;
+
+  const fences = new FenceTracker();
+  const output: string[] = [];
+  let inComment = false;
+
+  for (const line of content.split('\n')) {
+    if (!inComment && fences.update(line)) {
+      output.push(line);
+      continue;
+    }
+
+    let result = '';
+    let removed = inComment;
+    let i = 0;
+    while (i < line.length) {
+      if (line.startsWith('%%', i)) {
+        inComment = !inComment;
+        removed = true;
+        i += 2;
+        continue;
+      }
+      if (inComment) {
+        i++;
+        continue;
+      }
+      // Copy inline code spans verbatim
+      if (line[i] === '`') {
+        const run = line.slice(i).match(/^`+/)![0];
+        const close = line.indexOf(run, i + run.length);
+        if (close !== -1) {
+          result += line.slice(i, close + run.length);
+          i = close + run.length;
+          continue;
+        }
+        result += run;
+        i += run.length;
+        continue;
+      }
+      result += line[i];
+      i++;
+    }
+
+    // Drop lines that only held a comment
+    if (removed && result.trim() === '') continue;
+    output.push(result);
+  }
+
+  return output.join('\n');
+}
+
+/**
+ * Remove sections under the given headings, up to the next heading of the same or higher level
+ */
+export function stripHeadingSections(content: string, headings: string[]): string {
+  const targets = new Set(headings.map((h) => h.trim().toLowerCase()).filter(Boolean));
+  if (targets.size === 0) return content;
+
+  const fences = new FenceTracker();
+  const output: string[] = [];
+  let skipLevel = 0; // level of the heading being removed (0 = not removing)
+
+  for (const line of content.split('\n')) {
+    const inFence = fences.update(line);
+    const heading = inFence ? null : line.match(HEADING_REGEX);
+
+    if (heading) {
+      const level = heading[1].length;
+      if (skipLevel && level <= skipLevel) skipLevel = 0;
+      if (!skipLevel && targets.has(heading[2].toLowerCase())) skipLevel = level;
+    }
+
+    if (!skipLevel) output.push(line);
+  }
+
+  return output.join('\n');
+}
+
+/**
+ * Remove everything between start and end markers (inclusive).
+ * An unclosed start marker hides the rest of the note.
+ */
+export function stripMarkedBlocks(content: string, markers: RedactionMarker[]): string {
+  for (const { start, end } of markers) {
+    if (!start || !end) continue;
+
+    let startIdx = content.indexOf(start);
+    while (startIdx !== -1) {
+      const endIdx = content.indexOf(end, startIdx + start.length);
+      content = endIdx === -1
+        ? content.slice(0, startIdx)
+        : content.slice(0, startIdx) + content.slice(endIdx + end.length);
+      startIdx = content.indexOf(start, startIdx);
+    }
+  }
+  return content;
+}
+
+/**
+ * Full redaction pass run before a note leaves the vault
+ */
+export function redactContent(content: string, options: RedactionOptions = {}): string {
+  content = stripComments(content);
+  content = stripMarkedBlocks(content, options.markers || []);
+  content = stripHeadingSections(content, options.headings || []);
+  return content;
+}
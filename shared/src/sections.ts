@@ -0,0 +1,92 @@
+import { FenceTracker, HEADING_REGEX } from './redact';
+
+const FRONTMATTER_REGEX = /^---\r?\n[\s\S]*?\r?\n---[ \t]*(\r?\n|$)/;
+const LIST_ITEM_REGEX = /^(\s*)([-*+]|\d+[.)])\s/;
+const BLOCK_ID_LINE_REGEX = /^\s*\^[a-zA-Z0-9-]+\s*$/;
+
+/**
+ * Remove a leading YAML frontmatter block
+ */
+export function stripFrontmatter(content: string): string {
+  return content.replace(FRONTMATTER_REGEX, '');
+}
+
+// Headings match link text loosely, as in Obsidian ("Q&A: Setup" ~ "Q A Setup")
+function normalizeHeading(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+/**
+ * The section under a heading, heading line included, up to the next heading of
+ * the same or higher level. Nested paths (["Setup", "Linux"]) narrow step by step.
+ */
+export function extractSection(content: string, path: string[]): string | undefined {
+  const lines = content.split('\n');
+  const fences = new FenceTracker();
+  const headings: { line: number; level: number; text: string }[] = [];
+  lines.forEach((line, i) => {
+    const match = fences.update(line) ? null : line.match(HEADING_REGEX);
+    if (match) headings.push({ line: i, level: match[1].length, text: normalizeHeading(match[2]) });
+  });
+
+  let start = 0;
+  let end = lines.length;
+  let level = 0;
+  for (const name of path) {
+    const target = normalizeHeading(name);
+    const heading = headings.find((h) => h.line >= start && h.line < end && h.level > level && h.text === target);
+    if (!heading) return undefined;
+
+    const next = headings.find((h) => h.line > heading.line && h.level <= heading.level);
+    start = heading.line;
+    end = Math.min(end, next ? next.line : lines.length);
+    level = heading.level;
+  }
+
+  return lines.slice(start, end).join('\n').trim();
+}
+
+/**
+ * The block carrying a ^block-id: its paragraph, or a list item with its children.
+ * An id on a line of its own refers to the block above it. The id is removed.
+ */
+export function extractBlock(content: string, id: string): string | undefined {
+  const lines = content.split('\n');
+  const marker = new RegExp(`(^|\\s)\\^${id.replace(/[^a-zA-Z0-9-]/g, '')}\\s*$`);
+  let index = lines.findIndex((line) => marker.test(line));
+  if (index === -1) return undefined;
+
+  const isBlank = (i: number) => lines[i].trim() === '';
+  let start: number;
+  let end: number;
+
+  if (BLOCK_ID_LINE_REGEX.test(lines[index])) {
+    // Standalone id (after a table, quote or code block)
+    end = index - 1;
+    while (end >= 0 && isBlank(end)) end--;
+    if (end < 0) return undefined;
+    start = end;
+    while (start > 0 && !isBlank(start - 1)) start--;
+    index = -1;
+  } else {
+    const item = lines[index].match(LIST_ITEM_REGEX);
+    start = index;
+    end = index;
+    if (item) {
+      // The item plus anything indented under it
+      const indent = item[1].length;
+      while (end + 1 < lines.length && (isBlank(end + 1) || lines[end + 1].search(/\S/) > indent)) end++;
+      while (end > index && isBlank(end)) end--;
+    } else {
+      while (start > 0 && !isBlank(start - 1)) start--;
+      while (end + 1 < lines.length && !isBlank(end + 1)) end++;
+    }
+  }
+
+  const block = lines.slice(start, end + 1);
+  if (index !== -1) block[index - start] = block[index - start].replace(marker, '');
+
+  // Dedent nested list items so they stand on their own
+  const indent = block[0].search(/\S|$/);
+  return block.map((line) => line.slice(Math.min(indent, line.search(/\S|$/)))).join('\n').trim();
+}
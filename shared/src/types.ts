@@ -27,6 +27,7 @@ export interface DualThemeSettings {
 export interface LinkedNote {
   title: string;
   content: string;
+  links?: string[]; // titles of other notes in the request this note links to
 }
 
 /**
@@ -37,7 +38,47 @@ export interface ShareRequest {
   title: string;
   content: string;
   linkedNotes?: LinkedNote[];
+  links?: string[]; // titles of linked notes the main note links to (default: all of them)
   retentionDays?: number;
+  password?: string | null; // omit to keep current, null or '' to remove
+  kind?: 'note' | 'canvas'; // canvas: content is a SharedCanvas as JSON (default: note)
+}
+
+/**
+ * A canvas as uploaded (JSON Canvas format). Text cards, notes and media are
+ * inlined as markdown in `text`, so the worker never needs the vault.
+ */
+export interface SharedCanvas {
+  nodes: SharedCanvasNode[];
+  edges: SharedCanvasEdge[];
+}
+
+export type CanvasSide = 'top' | 'right' | 'bottom' | 'left';
+
+export interface SharedCanvasNode {
+  id: string;
+  type: 'text' | 'file' | 'link' | 'group';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color?: string; // preset '1'-'6' or hex
+  text?: string; // markdown: text cards, and the content of note and media cards
+  file?: string; // file cards: note title (links to the shared note) or file name
+  url?: string; // link cards
+  label?: string; // groups
+}
+
+export interface SharedCanvasEdge {
+  id: string;
+  fromNode: string;
+  toNode: string;
+  fromSide?: CanvasSide;
+  toSide?: CanvasSide;
+  fromEnd?: 'none' | 'arrow'; // default none
+  toEnd?: 'none' | 'arrow'; // default arrow
+  color?: string;
+  label?: string;
 }
 
 /**
@@ -49,6 +90,158 @@ export interface ShareResponse {
   hash: string;
 }
 
+/**
+ * Request to publish a folder as a collection (its notes must already be shared)
+ */
+export interface CollectionRequest {
+  vault: string;
+  folder: string; // vault path of the folder ('' = whole vault)
+  title: string;
+  notes: { path: string; title: string }[]; // markdown files, path relative to the folder
+}
+
+/**
+ * Response after publishing a collection
+ */
+export interface CollectionResponse {
+  url: string;
+  slug: string;
+  hash: string;
+}
+
+/**
+ * Orders for listing shared notes (created, updated and views newest/most first by default).
+ * View counts reach the list through a daily job, so `views` lags by up to a day.
+ */
+export type NoteSort = 'created' | 'updated' | 'title' | 'views';
+
+/**
+ * A shared note as listed by GET /api/notes
+ */
+export interface SharedNote {
+  titleSlug: string;
+  hash: string;
+  title: string;
+  createdAt: string;
+  updatedAt?: string; // missing for notes not re-shared since it was added
+  protected?: boolean;
+  tags?: string[]; // frontmatter tags, without '#'
+  views?: number; // as of the last daily sync
+}
+
+/**
+ * One page of GET /api/notes
+ */
+export interface NoteListResponse {
+  notes: SharedNote[];
+  cursor?: string; // pass back for the next page; absent on the last page
+}
+
+/**
+ * Bucket size for GET /api/stats/:hash
+ */
+export type StatsGranularity = 'day' | 'week' | 'month';
+
+/**
+ * A single page view (the most recent 100 are kept)
+ */
+export interface RecentView {
+  timestamp: string;
+  device: string;
+  browser: string;
+  country: string;
+}
+
+/**
+ * Aggregated views over one day, ISO week or month
+ */
+export interface StatsBucket {
+  start: string; // first day, YYYY-MM-DD (UTC)
+  views: number;
+  // Estimated unique visitors per day, summed over the bucket's days: the visitor salt
+  // changes daily, so someone who reads on three days counts three times
+  visitorDays: number;
+  avgReadSeconds?: number; // from read beacons; absent without any
+  avgReadDepth?: number; // furthest scroll position, 0-100
+}
+
+/**
+ * GET /api/stats/:hash response
+ */
+export interface NoteStats {
+  total: number; // all-time views
+  views: RecentView[]; // most recent first
+  from: string; // YYYY-MM-DD, inclusive
+  to: string;
+  granularity: StatsGranularity;
+  series: StatsBucket[]; // one bucket per day/week/month in the range, oldest first
+  // The whole range; visitorDays, like in series, counts a returning reader once per day
+  summary: Omit<StatsBucket, 'start'> & {
+    referrers: { domain: string; views: number }[]; // most views first; 'direct' when none was sent
+  };
+}
+
+/**
+ * Summary of one version of a shared note
+ */
+export interface NoteRevision {
+  revision: number;
+  title: string;
+  updatedAt: string;
+  size: number; // content length in characters
+  current: boolean;
+}
+
+/**
+ * Request to set, change or remove a note's password
+ */
+export interface PasswordRequest {
+  password: string | null; // null or '' removes protection
+}
+
+/**
+ * Response after changing a note's password or deleting it
+ */
+export interface NoteChangeResponse {
+  success: true;
+  protected?: boolean; // password changes only
+  // Seconds other data centers may keep serving the previous page from their edge cache
+  edgeCacheSeconds: number;
+}
+
+/**
+ * Request to change a vault's URL secret and re-key its shared notes
+ */
+export interface RekeyRequest {
+  vault: string;
+  secret: string | null; // null or '' goes back to unsalted hashes
+  redirectDays?: number; // how long old URLs redirect (default 0 = no redirects)
+}
+
+/**
+ * Result of re-keying a vault
+ */
+export interface RekeyResponse {
+  migrated: number;
+  notes: { titleSlug: string; oldHash: string; newHash: string }[];
+}
+
+/**
+ * Block wrapped in user-defined start/end markers
+ */
+export interface RedactionMarker {
+  start: string;
+  end: string;
+}
+
+/**
+ * What to remove from a note before it is uploaded
+ */
+export interface RedactionOptions {
+  headings?: string[]; // heading texts whose whole section is removed (any level, case-insensitive)
+  markers?: RedactionMarker[];
+}
+
 /**
  * Request to sync theme settings
  */
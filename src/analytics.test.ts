@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_RANGE_DAYS, StatsRange, parseStatsRange, queryStats } from './analytics';
+import { DailyStats, MonthlyStats } from './types';
+
+const now = new Date('2024-03-15T12:00:00Z');
+
+/**
+ * Read-only bucket holding a note's monthly rollups
+ */
+class FakeBucket {
+  constructor(private objects: Record<string, MonthlyStats>) {}
+
+  async get(key: string) {
+    const object = this.objects[key];
+    return object ? { json: async () => object } : null;
+  }
+
+  asBucket(): R2Bucket {
+    return this as unknown as R2Bucket;
+  }
+}
+
+// A day's rollup; `register` marks one distinct visitor in its own HyperLogLog register
+function day(views: number, fields: Partial<DailyStats> & { register?: number } = {}): DailyStats {
+  const { register, ...rest } = fields;
+  const registers = new Uint8Array(256);
+  if (register !== undefined) registers[register] = 1;
+  return {
+    views,
+    visitors: register === undefined ? '' : btoa(String.fromCharCode(...registers)),
+    referrers: {},
+    reads: 0,
+    readSeconds: 0,
+    depthReads: 0,
+    readDepth: 0,
+    ...rest,
+  };
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+describe('parseStatsRange', () => {
+  it('defaults to the last 30 days by day', () => {
+    expect(parseStatsRange({}, now)).toEqual({ from: '2024-02-15', to: '2024-03-15', granularity: 'day' });
+    expect(parseStatsRange({ to: '2024-01-31', granularity: 'week' }, now)).toEqual({
+      from: '2024-01-02',
+      to: '2024-01-31',
+      granularity: 'week',
+    });
+    expect(parseStatsRange({ from: '2024-03-01', to: '2024-03-01', granularity: 'month' }, now)).toEqual({
+      from: '2024-03-01',
+      to: '2024-03-01',
+      granularity: 'month',
+    });
+  });
+
+  it('rejects a malformed end date instead of throwing', () => {
+    for (const to of ['foo', '2024-02-30', '2024-3-1']) {
+      expect(parseStatsRange({ to }, now)).toBe('from and to must be dates (YYYY-MM-DD)');
+    }
+    expect(parseStatsRange({ from: 'yesterday', to: '2024-03-01' }, now)).toBe('from and to must be dates (YYYY-MM-DD)');
+  });
+
+  it('rejects unknown granularities and reversed ranges', () => {
+    expect(parseStatsRange({ granularity: 'year' }, now)).toBe('granularity must be day, week or month');
+    expect(parseStatsRange({ from: '2024-03-02', to: '2024-03-01' }, now)).toBe('from must not be after to');
+  });
+
+  it(`limits ranges to ${MAX_RANGE_DAYS} days`, () => {
+    const from = '2020-01-01';
+    expect(parseStatsRange({ from, to: addDays(from, MAX_RANGE_DAYS - 1) }, now)).toMatchObject({ from });
+    expect(parseStatsRange({ from, to: addDays(from, MAX_RANGE_DAYS) }, now)).toBe(`Ranges are limited to ${MAX_RANGE_DAYS} days`);
+  });
+});
+
+describe('queryStats', () => {
+  const bucket = new FakeBucket({
+    'stats/abc/2024-01.json': {
+      days: {
+        '2024-01-29': day(100),
+        '2024-01-30': day(1, { register: 0, referrers: { 'example.com': 1 } }),
+        '2024-01-31': day(2, { register: 1, reads: 2, readSeconds: 90, depthReads: 1, readDepth: 80 }),
+      },
+    },
+    'stats/abc/2024-02.json': {
+      days: {
+        '2024-02-04': day(4, { register: 2, referrers: { direct: 3, 'example.com': 1 } }),
+        '2024-02-05': day(8, { register: 3 }),
+        '2024-02-13': day(16),
+        '2024-02-14': day(100),
+      },
+    },
+  });
+  const query = (range: StatsRange) => queryStats(bucket.asBucket(), 'abc', range);
+
+  it('groups days into ISO weeks, cutting the edge weeks at the range', async () => {
+    const stats = await query({ from: '2024-01-30', to: '2024-02-13', granularity: 'week' });
+
+    // Jan 29 and Feb 14 are in the edge weeks but outside the range
+    expect(stats.series.map((b) => [b.start, b.views, b.visitorDays])).toEqual([
+      ['2024-01-29', 7, 3],
+      ['2024-02-05', 8, 1],
+      ['2024-02-12', 16, 0],
+    ]);
+    expect(stats.series[0]).toMatchObject({ avgReadSeconds: 45, avgReadDepth: 80 });
+    expect(stats.series[1].avgReadSeconds).toBeUndefined();
+
+    // Visitor hashes differ every day: a reader on Feb 4 and 5 counts twice
+    expect(stats.summary).toMatchObject({ views: 31, visitorDays: 4 });
+    expect(stats.summary.referrers).toEqual([
+      { domain: 'direct', views: 3 },
+      { domain: 'example.com', views: 2 },
+    ]);
+  });
+
+  it('groups days into calendar months, including months without views', async () => {
+    const stats = await query({ from: '2024-01-31', to: '2024-03-01', granularity: 'month' });
+
+    expect(stats.series.map((b) => [b.start, b.views])).toEqual([
+      ['2024-01-01', 2],
+      ['2024-02-01', 128],
+      ['2024-03-01', 0],
+    ]);
+  });
+
+  it('has one bucket per day by day', async () => {
+    const stats = await query({ from: '2024-02-03', to: '2024-02-06', granularity: 'day' });
+
+    expect(stats.series.map((b) => [b.start, b.views])).toEqual([
+      ['2024-02-03', 0],
+      ['2024-02-04', 4],
+      ['2024-02-05', 8],
+      ['2024-02-06', 0],
+    ]);
+  });
+});
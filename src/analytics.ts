@@ -0,0 +1,335 @@
+import { DailyStats, MonthlyStats, NoteStats, StatsBucket, StatsGranularity } from './types';
+import { updateJson } from './r2-json';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// HyperLogLog with 2^8 registers: ~6.5% standard error, 256 bytes per note per day
+const HLL_BITS = 8;
+const HLL_REGISTERS = 1 << HLL_BITS;
+
+// Distinct referring domains kept per note per day (the rest count as 'other')
+const MAX_REFERRERS = 50;
+
+// Longest range GET /api/stats/:hash answers, and its default
+export const MAX_RANGE_DAYS = 5 * 366;
+const DEFAULT_RANGE_DAYS = 30;
+
+// Time on page above this is someone who left the tab open
+const MAX_READ_SECONDS = 30 * 60;
+
+// Domain names only (what the page's beacon sends)
+const DOMAIN_REGEX = /^[a-z0-9-]+(\.[a-z0-9-]+)*$/;
+
+// Today's visitor salt (per isolate, so most views skip the R2 read)
+let saltCache: { day: string; salt: string } | undefined;
+
+export interface StatsRange {
+  from: string; // YYYY-MM-DD
+  to: string;
+  granularity: StatsGranularity;
+}
+
+export interface ReadReport {
+  seconds: number;
+  depth?: number;
+}
+
+function dayOf(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function monthKey(hash: string, day: string): string {
+  return `stats/${hash}/${day.slice(0, 7)}.json`;
+}
+
+function emptyDay(): DailyStats {
+  return { views: 0, visitors: '', referrers: {}, reads: 0, readSeconds: 0, depthReads: 0, readDepth: 0 };
+}
+
+/**
+ * Anonymous visitor hash for today: the day's random salt, IP address, browser
+ * and note. Salts are deleted after two days, so hashes can't be linked across
+ * days or notes, nor recomputed later. Only HyperLogLog registers derived from
+ * it are stored. Undefined if today's salt can't be read or created (the view
+ * is then counted without a visitor).
+ */
+export async function visitorHash(
+  bucket: R2Bucket,
+  ip: string,
+  userAgent: string,
+  noteHash: string
+): Promise<Uint8Array | undefined> {
+  const today = dayOf(new Date());
+  if (saltCache?.day !== today) {
+    const salt = await dailySalt(bucket, today);
+    if (!salt) return undefined;
+    saltCache = { day: today, salt };
+  }
+  const { salt } = saltCache;
+
+  const data = new TextEncoder().encode(`${salt}|${ip}|${userAgent}|${noteHash}`);
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+}
+
+/**
+ * Count a view in today's rollup (and its visitor, if known)
+ */
+export async function recordView(
+  bucket: R2Bucket,
+  hash: string,
+  visitor: Uint8Array | undefined,
+  referrer: string | undefined
+): Promise<void> {
+  const today = dayOf(new Date());
+  const domain = normalizeReferrer(referrer);
+
+  await updateJson<MonthlyStats>(bucket, monthKey(hash, today), (month = { days: {} }) => {
+    const day = { ...emptyDay(), ...month.days[today] };
+    day.views++;
+    if (visitor) day.visitors = encodeRegisters(hllAdd(decodeRegisters(day.visitors), visitor));
+
+    const known = domain in day.referrers || Object.keys(day.referrers).length < MAX_REFERRERS;
+    const key = known ? domain : 'other';
+    day.referrers = { ...day.referrers, [key]: (day.referrers[key] || 0) + 1 };
+
+    return { days: { ...month.days, [today]: day } };
+  });
+}
+
+/**
+ * Add a read beacon (time on page, scroll depth) to today's rollup
+ */
+export async function recordRead(bucket: R2Bucket, hash: string, report: ReadReport): Promise<void> {
+  const today = dayOf(new Date());
+
+  await updateJson<MonthlyStats>(bucket, monthKey(hash, today), (month = { days: {} }) => {
+    const day = { ...emptyDay(), ...month.days[today] };
+    day.reads++;
+    day.readSeconds += report.seconds;
+    if (report.depth !== undefined) {
+      day.depthReads++;
+      day.readDepth += report.depth;
+    }
+    return { days: { ...month.days, [today]: day } };
+  });
+}
+
+/**
+ * Validate a read beacon body ({ seconds, depth? }); undefined if unusable
+ */
+export function parseReadReport(body: unknown): ReadReport | undefined {
+  if (!body || typeof body !== 'object') return undefined;
+  const { seconds, depth } = body as Record<string, unknown>;
+  if (typeof seconds !== 'number' || !Number.isFinite(seconds) || seconds < 0) return undefined;
+  if (depth !== undefined && (typeof depth !== 'number' || !Number.isFinite(depth))) return undefined;
+
+  return {
+    seconds: Math.min(Math.round(seconds), MAX_READ_SECONDS),
+    depth: depth === undefined ? undefined : Math.max(0, Math.min(100, Math.round(depth))),
+  };
+}
+
+/**
+ * Parse from/to/granularity query parameters (default: the last 30 days by day);
+ * returns an error message for invalid ones
+ */
+export function parseStatsRange(params: Record<string, string | undefined>, now = new Date()): StatsRange | string {
+  const granularity = (params.granularity || 'day') as StatsGranularity;
+  if (!['day', 'week', 'month'].includes(granularity)) {
+    return 'granularity must be day, week or month';
+  }
+
+  // Checked before the default start is derived from the end
+  if ((params.from && !isDay(params.from)) || (params.to && !isDay(params.to))) {
+    return 'from and to must be dates (YYYY-MM-DD)';
+  }
+  const to = params.to || dayOf(now);
+  const from = params.from || dayOf(new Date(Date.parse(to) - (DEFAULT_RANGE_DAYS - 1) * DAY_MS));
+  if (from > to) {
+    return 'from must not be after to';
+  }
+  if ((Date.parse(to) - Date.parse(from)) / DAY_MS >= MAX_RANGE_DAYS) {
+    return `Ranges are limited to ${MAX_RANGE_DAYS} days`;
+  }
+
+  return { from, to, granularity };
+}
+
+/**
+ * Views, visitors and reading over a date range, bucketed by day, ISO week or
+ * month (the first and last buckets only cover days inside the range). Salts
+ * change daily, so visitors are distinct per day only: longer buckets count
+ * visitor-days.
+ */
+export async function queryStats(bucket: R2Bucket, hash: string, range: StatsRange): Promise<Omit<NoteStats, 'total' | 'views'>> {
+  const months = await Promise.all(
+    monthsBetween(range.from, range.to).map(async (month) => {
+      const obj = await bucket.get(`stats/${hash}/${month}.json`);
+      return obj ? (await obj.json<MonthlyStats>()).days : {};
+    })
+  );
+  const days: Record<string, DailyStats> = Object.assign({}, ...months);
+
+  const buckets = new Map<string, DailyStats[]>();
+  for (let t = Date.parse(range.from); t <= Date.parse(range.to); t += DAY_MS) {
+    const day = dayOf(new Date(t));
+    const start = bucketStart(day, range.granularity);
+    buckets.set(start, [...(buckets.get(start) || []), days[day] || emptyDay()]);
+  }
+
+  const inRange = [...buckets.values()].flat();
+  const referrers = new Map<string, number>();
+  for (const day of inRange) {
+    for (const [domain, views] of Object.entries(day.referrers)) {
+      referrers.set(domain, (referrers.get(domain) || 0) + views);
+    }
+  }
+
+  const { views, visitorDays, avgReadSeconds, avgReadDepth } = summarize('', inRange);
+  return {
+    ...range,
+    series: [...buckets].map(([start, group]) => summarize(start, group)),
+    summary: {
+      views,
+      visitorDays,
+      avgReadSeconds,
+      avgReadDepth,
+      referrers: [...referrers]
+        .map(([domain, views]) => ({ domain, views }))
+        .sort((a, b) => b.views - a.views || a.domain.localeCompare(b.domain)),
+    },
+  };
+}
+
+/**
+ * Delete a note's daily rollups
+ */
+export async function deleteDailyStats(bucket: R2Bucket, hash: string): Promise<void> {
+  let cursor: string | undefined;
+  do {
+    const list = await bucket.list({ prefix: `stats/${hash}/`, cursor });
+    await Promise.all(list.objects.map((obj) => bucket.delete(obj.key)));
+    cursor = list.truncated ? list.cursor : undefined;
+  } while (cursor);
+}
+
+/**
+ * Delete visitor salts older than yesterday (scheduled)
+ */
+export async function cleanupVisitorSalts(bucket: R2Bucket, now = new Date()): Promise<number> {
+  const keep = dayOf(new Date(now.getTime() - DAY_MS));
+  const list = await bucket.list({ prefix: 'analytics/salts/' });
+  const old = list.objects.filter((obj) => obj.key.slice('analytics/salts/'.length, -'.json'.length) < keep);
+  await Promise.all(old.map((obj) => bucket.delete(obj.key)));
+  return old.length;
+}
+
+/**
+ * A day's visitor salt. Created by the first view of the day; concurrent first
+ * views all get the winner's salt. Falls back to reading the object if the
+ * conditional create keeps conflicting.
+ */
+async function dailySalt(bucket: R2Bucket, day: string): Promise<string | undefined> {
+  const key = `analytics/salts/${day}.json`;
+  try {
+    const stored = await updateJson<{ salt: string }>(bucket, key, (current) =>
+      current ? undefined : { salt: btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(16)))) }
+    );
+    if (stored?.salt) return stored.salt;
+  } catch (e) {
+    console.error('Visitor salt error:', e);
+  }
+
+  const obj = await bucket.get(key).catch(() => null);
+  return obj ? (await obj.json<{ salt: string }>()).salt || undefined : undefined;
+}
+
+function summarize(start: string, days: DailyStats[]): StatsBucket {
+  const reads = days.reduce((sum, d) => sum + d.reads, 0);
+  const depthReads = days.reduce((sum, d) => sum + d.depthReads, 0);
+  const registers = new Uint8Array(HLL_REGISTERS);
+  // Hashes differ every day, so the merged estimate counts visitor-days
+  for (const day of days) hllMerge(registers, decodeRegisters(day.visitors));
+
+  return {
+    start,
+    views: days.reduce((sum, d) => sum + d.views, 0),
+    visitorDays: hllEstimate(registers),
+    avgReadSeconds: reads ? Math.round(days.reduce((sum, d) => sum + d.readSeconds, 0) / reads) : undefined,
+    avgReadDepth: depthReads ? Math.round(days.reduce((sum, d) => sum + d.readDepth, 0) / depthReads) : undefined,
+  };
+}
+
+/**
+ * Referring domain as counted: lowercase, without www., 'direct' when absent
+ */
+function normalizeReferrer(referrer: string | undefined): string {
+  const domain = (referrer || '').trim().toLowerCase().replace(/^www\./, '');
+  if (!domain) return 'direct';
+  return domain.length <= 253 && DOMAIN_REGEX.test(domain) ? domain : 'other';
+}
+
+function isDay(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && dayOf(new Date(Date.parse(value) || 0)) === value;
+}
+
+function monthsBetween(from: string, to: string): string[] {
+  const months: string[] = [];
+  const date = new Date(`${from.slice(0, 7)}-01T00:00:00Z`);
+  while (dayOf(date).slice(0, 7) <= to.slice(0, 7)) {
+    months.push(dayOf(date).slice(0, 7));
+    date.setUTCMonth(date.getUTCMonth() + 1);
+  }
+  return months;
+}
+
+function bucketStart(day: string, granularity: StatsGranularity): string {
+  if (granularity === 'day') return day;
+  if (granularity === 'month') return `${day.slice(0, 7)}-01`;
+
+  // ISO weeks start on Monday
+  const date = new Date(`${day}T00:00:00Z`);
+  return dayOf(new Date(date.getTime() - ((date.getUTCDay() + 6) % 7) * DAY_MS));
+}
+
+function hllAdd(registers: Uint8Array, hash: Uint8Array): Uint8Array {
+  // First byte picks the register, the next 32 bits give the rank (leading zeros + 1)
+  const index = hash[0] & (HLL_REGISTERS - 1);
+  const rest = ((hash[1] << 24) | (hash[2] << 16) | (hash[3] << 8) | hash[4]) >>> 0;
+  const rank = Math.clz32(rest) + 1;
+  registers[index] = Math.max(registers[index], rank);
+  return registers;
+}
+
+function hllMerge(target: Uint8Array, other: Uint8Array): void {
+  for (let i = 0; i < HLL_REGISTERS; i++) target[i] = Math.max(target[i], other[i]);
+}
+
+function hllEstimate(registers: Uint8Array): number {
+  let sum = 0;
+  let zeros = 0;
+  for (const value of registers) {
+    sum += 2 ** -value;
+    if (value === 0) zeros++;
+  }
+
+  const alpha = 0.7213 / (1 + 1.079 / HLL_REGISTERS);
+  const estimate = (alpha * HLL_REGISTERS * HLL_REGISTERS) / sum;
+  // Small cardinalities: linear counting is more accurate
+  if (estimate <= 2.5 * HLL_REGISTERS && zeros > 0) {
+    return Math.round(HLL_REGISTERS * Math.log(HLL_REGISTERS / zeros));
+  }
+  return Math.round(estimate);
+}
+
+function decodeRegisters(encoded: string): Uint8Array {
+  const registers = new Uint8Array(HLL_REGISTERS);
+  if (!encoded) return registers;
+  const binary = atob(encoded);
+  for (let i = 0; i < Math.min(binary.length, HLL_REGISTERS); i++) registers[i] = binary.charCodeAt(i);
+  return registers;
+}
+
+function encodeRegisters(registers: Uint8Array): string {
+  return btoa(String.fromCharCode(...registers));
+}
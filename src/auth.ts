@@ -0,0 +1,175 @@
+import { ApiKeyRecord, AuthContext, CreateApiKeyRequest, Env, Permission } from './types';
+import { updateJson } from './r2-json';
+
+export const PERMISSIONS: Permission[] = ['share', 'delete', 'stats', 'theme', 'admin'];
+
+// Key records are cached briefly; revocation in another isolate applies within the TTL
+const keyCache = new Map<string, { record: ApiKeyRecord; expires: number }>();
+const KEY_CACHE_TTL = 60 * 1000; // 1 minute
+
+// Only persist lastUsedAt when it is older than this, to avoid a write per request
+const LAST_USED_RESOLUTION = 60 * 60 * 1000; // 1 hour
+
+// Key ids are a prefix of the key's SHA-256 (16 hex chars = 64 bits)
+const KEY_ID_LENGTH = 16;
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function keyObject(id: string): string {
+  return `keys/${id}.json`;
+}
+
+async function getKeyRecord(bucket: R2Bucket, id: string): Promise<ApiKeyRecord | undefined> {
+  const cached = keyCache.get(id);
+  if (cached && cached.expires > Date.now()) {
+    return cached.record;
+  }
+
+  const obj = await bucket.get(keyObject(id));
+  if (!obj) return undefined;
+
+  const record = await obj.json<ApiKeyRecord>();
+  keyCache.set(id, { record, expires: Date.now() + KEY_CACHE_TTL });
+  return record;
+}
+
+/**
+ * Resolve an X-API-Key header to the caller's scope.
+ * The global API_KEY secret is the root key: every vault, every permission.
+ * Returns the auth context plus a deferred lastUsedAt update (if one is due).
+ */
+export async function authenticate(
+  env: Env,
+  apiKey: string | undefined
+): Promise<{ auth: AuthContext; touch?: Promise<void> } | undefined> {
+  if (!apiKey) return undefined;
+
+  if (env.API_KEY && apiKey === env.API_KEY) {
+    return { auth: { keyId: 'root', vaults: '*', permissions: PERMISSIONS } };
+  }
+
+  const keyHash = await sha256Hex(apiKey);
+  const record = await getKeyRecord(env.NOTES, keyHash.slice(0, KEY_ID_LENGTH));
+  if (!record || record.keyHash !== keyHash || record.revokedAt) return undefined;
+
+  const auth: AuthContext = { keyId: record.id, vaults: record.vaults, permissions: record.permissions };
+
+  const lastUsed = record.lastUsedAt ? Date.parse(record.lastUsedAt) : 0;
+  if (Date.now() - lastUsed < LAST_USED_RESOLUTION) {
+    return { auth };
+  }
+
+  // Only lastUsedAt changes, on the stored record: a revocation since it was cached must stand
+  const lastUsedAt = new Date().toISOString();
+  record.lastUsedAt = lastUsedAt;
+  const touch = updateJson<ApiKeyRecord>(env.NOTES, keyObject(record.id), (current) =>
+    current && !current.revokedAt ? { ...current, lastUsedAt } : undefined
+  ).then(() => undefined);
+  return { auth, touch };
+}
+
+/**
+ * Check whether the caller holds a permission, optionally for a specific vault
+ */
+export function can(auth: AuthContext, permission: Permission, vault?: string): boolean {
+  if (!auth.permissions.includes(permission)) return false;
+  if (vault === undefined || auth.vaults === '*') return true;
+  return auth.vaults.includes(vault);
+}
+
+/**
+ * Check whether the caller may mint, list and revoke keys. Key management is
+ * server-wide, so it takes an admin key for every vault: a key scoped to some
+ * vaults could otherwise mint itself an unscoped one.
+ */
+export function canManageKeys(auth: AuthContext): boolean {
+  return can(auth, 'admin') && auth.vaults === '*';
+}
+
+/**
+ * Check whether the caller has any access to a vault (used for read-only listing)
+ */
+export function canAccessVault(auth: AuthContext, vault: string): boolean {
+  return auth.vaults === '*' || auth.vaults.includes(vault);
+}
+
+/**
+ * Validate a mint request, returning an error message if invalid
+ */
+export function validateKeyRequest(body: CreateApiKeyRequest): string | undefined {
+  if (!body.label || typeof body.label !== 'string') return 'Missing label';
+  if (body.vaults !== '*' && (!Array.isArray(body.vaults) || body.vaults.length === 0)) {
+    return 'vaults must be "*" or a non-empty list of vault slugs';
+  }
+  if (!Array.isArray(body.permissions) || body.permissions.length === 0) return 'Missing permissions';
+  const unknown = body.permissions.filter((p) => !PERMISSIONS.includes(p));
+  if (unknown.length > 0) return `Unknown permissions: ${unknown.join(', ')}`;
+  return undefined;
+}
+
+/**
+ * Mint a new API key. The plaintext key is only ever returned here.
+ */
+export async function createApiKey(
+  bucket: R2Bucket,
+  body: CreateApiKeyRequest
+): Promise<{ key: string; record: ApiKeyRecord }> {
+  const random = crypto.getRandomValues(new Uint8Array(32));
+  const key = 'nsk_' + Array.from(random).map((b) => b.toString(16).padStart(2, '0')).join('');
+  const keyHash = await sha256Hex(key);
+
+  const record: ApiKeyRecord = {
+    id: keyHash.slice(0, KEY_ID_LENGTH),
+    keyHash,
+    label: body.label,
+    vaults: body.vaults,
+    permissions: [...new Set(body.permissions)],
+    createdAt: new Date().toISOString(),
+  };
+
+  await bucket.put(keyObject(record.id), JSON.stringify(record));
+  return { key, record };
+}
+
+/**
+ * List all key records (without key hashes)
+ */
+export async function listApiKeys(bucket: R2Bucket): Promise<Omit<ApiKeyRecord, 'keyHash'>[]> {
+  const records: Omit<ApiKeyRecord, 'keyHash'>[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const list = await bucket.list({ prefix: 'keys/', cursor });
+    const batch = await Promise.all(
+      list.objects.map(async (object) => {
+        const obj = await bucket.get(object.key);
+        return obj ? await obj.json<ApiKeyRecord>() : undefined;
+      })
+    );
+    for (const record of batch) {
+      if (!record) continue;
+      const { keyHash, ...rest } = record;
+      records.push(rest);
+    }
+    cursor = list.truncated ? list.cursor : undefined;
+  } while (cursor);
+
+  return records.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Revoke a key by id. Returns false if the key does not exist.
+ */
+export async function revokeApiKey(bucket: R2Bucket, id: string): Promise<boolean> {
+  const revokedAt = new Date().toISOString();
+  const record = await updateJson<ApiKeyRecord>(bucket, keyObject(id), (current) =>
+    current && !current.revokedAt ? { ...current, revokedAt } : undefined
+  );
+  keyCache.delete(id);
+  return !!record;
+}
@@ -0,0 +1,162 @@
+import { slugify } from '@obsidian-note-share/shared';
+import { BacklinkIndex, LinkedMention, NoteIndex, StoredNote } from './types';
+import { findNoteLinks } from './render';
+import { updateJson } from './r2-json';
+
+// Snippets shown per linking note
+const MAX_SNIPPETS = 3;
+
+type NoteRef = { titleSlug: string; hash: string };
+
+/**
+ * Read a vault's backlink index ({vault}/backlinks.json)
+ */
+export async function getBacklinkIndex(bucket: R2Bucket, vault: string): Promise<BacklinkIndex> {
+  const obj = await bucket.get(`${vault}/backlinks.json`);
+  if (!obj) return { sources: {} };
+  return obj.json<BacklinkIndex>();
+}
+
+/**
+ * Record the outgoing links of freshly shared notes (single conditional R2 write).
+ * Links resolve against the index, so it must already include the notes.
+ * Notes with links to them that didn't resolve until now are recorded again too.
+ * Returns the notes linked before or after and those newly resolving notes,
+ * whose pages may have changed.
+ */
+export async function updateBacklinks(
+  bucket: R2Bucket,
+  vault: string,
+  notes: StoredNote[],
+  index: NoteIndex['notes']
+): Promise<NoteRef[]> {
+  const resolving = await loadResolvingNotes(bucket, vault, notes, index);
+  const outgoing = [...notes, ...resolving].map((note) => ({ note, ...findNoteLinks(note, index) }));
+  let affected: NoteRef[] = [];
+
+  await updateJson<BacklinkIndex>(bucket, `${vault}/backlinks.json`, (backlinks = { sources: {} }) => {
+    affected = resolving.map(({ titleSlug, hash }) => ({ titleSlug, hash }));
+    for (const { note, links, unresolved } of outgoing) {
+      affected.push(...(backlinks.sources[note.hash]?.links || []), ...links);
+      if (links.length || unresolved.length) {
+        backlinks.sources[note.hash] = {
+          titleSlug: note.titleSlug,
+          title: note.title,
+          links,
+          unresolved: unresolved.length ? unresolved : undefined,
+        };
+      } else {
+        delete backlinks.sources[note.hash];
+      }
+    }
+    return backlinks;
+  });
+  return uniqueNotes(affected);
+}
+
+/**
+ * Forget a deleted note's outgoing links. Links to it become unresolved, so
+ * the linking notes are found again if it is shared again.
+ * Returns the notes it linked to and the notes linking to it.
+ */
+export async function removeBacklinks(bucket: R2Bucket, vault: string, hash: string): Promise<NoteRef[]> {
+  let affected: NoteRef[] = [];
+
+  await updateJson<BacklinkIndex>(bucket, `${vault}/backlinks.json`, (backlinks) => {
+    if (!backlinks) return undefined;
+    affected = [...(backlinks.sources[hash]?.links || [])];
+    let changed = !!backlinks.sources[hash];
+    delete backlinks.sources[hash];
+
+    for (const [sourceHash, source] of Object.entries(backlinks.sources)) {
+      const removed = source.links.filter((l) => l.hash === hash);
+      if (removed.length === 0) continue;
+
+      affected.push({ titleSlug: source.titleSlug, hash: sourceHash });
+      source.links = source.links.filter((l) => l.hash !== hash);
+      source.unresolved = [...new Set([...(source.unresolved || []), removed[0].titleSlug])];
+      changed = true;
+    }
+    return changed ? backlinks : undefined;
+  });
+  return uniqueNotes(affected).filter((l) => l.hash !== hash);
+}
+
+/**
+ * Re-key the backlink index after a URL secret change
+ * (hashMap: `${titleSlug}:${oldHash}` -> newHash)
+ */
+export async function remapBacklinks(bucket: R2Bucket, vault: string, hashMap: Map<string, string>): Promise<void> {
+  const remap = (titleSlug: string, oldHash: string) => hashMap.get(`${titleSlug}:${oldHash}`) || oldHash;
+
+  await updateJson<BacklinkIndex>(bucket, `${vault}/backlinks.json`, (backlinks = { sources: {} }) => {
+    const sources: BacklinkIndex['sources'] = {};
+    for (const [hash, source] of Object.entries(backlinks.sources)) {
+      sources[remap(source.titleSlug, hash)] = {
+        ...source,
+        links: source.links.map((l) => ({ ...l, hash: remap(l.titleSlug, l.hash) })),
+      };
+    }
+    return { sources };
+  });
+}
+
+/**
+ * Shared notes linking to a note, by title. Notes no longer in the index and
+ * password-protected notes are left out (their snippets would leak content).
+ */
+export function linkedMentions(
+  backlinks: BacklinkIndex,
+  hash: string,
+  index: NoteIndex['notes']
+): LinkedMention[] {
+  const shared = new Map(index.map((n) => [n.hash, n]));
+  const mentions: LinkedMention[] = [];
+
+  for (const [sourceHash, source] of Object.entries(backlinks.sources)) {
+    const entry = shared.get(sourceHash);
+    if (!entry || entry.protected || sourceHash === hash) continue;
+
+    const snippets = source.links.filter((l) => l.hash === hash).map((l) => l.snippet);
+    if (snippets.length) {
+      mentions.push({ titleSlug: entry.titleSlug, hash: sourceHash, title: entry.title, snippets: snippets.slice(0, MAX_SNIPPETS) });
+    }
+  }
+
+  return mentions.sort((a, b) => a.title.localeCompare(b.title));
+}
+
+/**
+ * Shared notes with links that didn't resolve and now point at one of the
+ * given notes (by title, alias or slug)
+ */
+async function loadResolvingNotes(
+  bucket: R2Bucket,
+  vault: string,
+  notes: StoredNote[],
+  index: NoteIndex['notes']
+): Promise<StoredNote[]> {
+  const hashes = new Set(notes.map((n) => n.hash));
+  const names = new Set(
+    index
+      .filter((entry) => hashes.has(entry.hash))
+      .flatMap((entry) => [entry.titleSlug, slugify(entry.title), ...(entry.aliases || []).map(slugify)])
+  );
+
+  const { sources } = await getBacklinkIndex(bucket, vault);
+  const matching = Object.entries(sources).filter(
+    ([hash, source]) => !hashes.has(hash) && source.unresolved?.some((name) => names.has(name))
+  );
+
+  const loaded = await Promise.all(
+    matching.map(async ([hash, source]) => {
+      const obj = await bucket.get(`notes/${source.titleSlug}-${hash}.json`);
+      return obj ? await obj.json<StoredNote>() : undefined;
+    })
+  );
+  return loaded.filter((note): note is StoredNote => note?.vault === vault);
+}
+
+function uniqueNotes(links: NoteRef[]): NoteRef[] {
+  return [...new Map(links.map((l) => [l.hash, l])).values()];
+}
@@ -0,0 +1,402 @@
+import { CanvasSide, SharedCanvas, SharedCanvasEdge, SharedCanvasNode } from './types';
+
+// Empty space kept around the outermost nodes
+const CANVAS_PADDING = 80;
+
+// Zoom limits of the viewer
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 4;
+
+// Arrowhead size in canvas units
+const ARROW_LENGTH = 12;
+const ARROW_WIDTH = 5;
+
+// Obsidian's preset colors ('1'-'6' in the canvas file)
+const PRESET_COLORS: Record<string, string> = {
+  '1': '#fb464c',
+  '2': '#e9973f',
+  '3': '#e0de71',
+  '4': '#44cf6e',
+  '5': '#53dfdd',
+  '6': '#a882ff',
+};
+
+const HEX_COLOR_REGEX = /^#[0-9a-f]{3,8}$/i;
+const NODE_TYPES = ['text', 'file', 'link', 'group'];
+const SIDES: CanvasSide[] = ['top', 'right', 'bottom', 'left'];
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+export interface CanvasBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Read a stored canvas, dropping malformed nodes and edges to missing nodes
+ */
+export function parseCanvas(content: string): SharedCanvas {
+  let data: Partial<SharedCanvas>;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    return { nodes: [], edges: [] };
+  }
+
+  const nodes = (Array.isArray(data.nodes) ? data.nodes : []).filter(
+    (n): n is SharedCanvasNode =>
+      !!n && typeof n.id === 'string' && NODE_TYPES.includes(n.type) &&
+      [n.x, n.y, n.width, n.height].every((v) => Number.isFinite(v))
+  );
+  const ids = new Set(nodes.map((n) => n.id));
+  const edges = (Array.isArray(data.edges) ? data.edges : []).filter(
+    (e): e is SharedCanvasEdge => !!e && ids.has(e.fromNode) && ids.has(e.toNode)
+  );
+
+  return { nodes, edges };
+}
+
+/**
+ * Whether uploaded canvas content is JSON with node and edge lists
+ */
+export function isValidCanvas(content: string): boolean {
+  try {
+    const data = JSON.parse(content);
+    return !!data && Array.isArray(data.nodes) && Array.isArray(data.edges);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Area covered by the nodes, padded; node and edge positions are drawn relative to it
+ */
+export function canvasBounds(nodes: SharedCanvasNode[]): CanvasBounds {
+  if (nodes.length === 0) return { x: 0, y: 0, width: CANVAS_PADDING * 2, height: CANVAS_PADDING * 2 };
+
+  const left = Math.min(...nodes.map((n) => n.x)) - CANVAS_PADDING;
+  const top = Math.min(...nodes.map((n) => n.y)) - CANVAS_PADDING;
+  const right = Math.max(...nodes.map((n) => n.x + n.width)) + CANVAS_PADDING;
+  const bottom = Math.max(...nodes.map((n) => n.y + n.height)) + CANVAS_PADDING;
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+/**
+ * CSS color for a preset number or hex value (anything else is ignored - it ends up in a style attribute)
+ */
+export function canvasColor(color: string | undefined): string | undefined {
+  if (!color) return undefined;
+  if (PRESET_COLORS[color]) return PRESET_COLORS[color];
+  return HEX_COLOR_REGEX.test(color) ? color : undefined;
+}
+
+/**
+ * Inline style placing a node on the canvas
+ */
+export function nodeStyle(node: SharedCanvasNode, bounds: CanvasBounds): string {
+  const color = canvasColor(node.color);
+  return [
+    `left:${node.x - bounds.x}px`,
+    `top:${node.y - bounds.y}px`,
+    `width:${node.width}px`,
+    `height:${node.height}px`,
+    color ? `--canvas-color:${color}` : '',
+  ].filter(Boolean).join(';');
+}
+
+/**
+ * Edges as one SVG layer (curves and arrowheads); labels are returned
+ * separately as positions so they can be rendered as HTML
+ */
+export function renderCanvasEdges(
+  canvas: SharedCanvas,
+  bounds: CanvasBounds,
+  escape: (text: string) => string
+): { svg: string; labels: string } {
+  const byId = new Map(canvas.nodes.map((n) => [n.id, n]));
+  const paths: string[] = [];
+  const labels: string[] = [];
+
+  for (const edge of canvas.edges) {
+    const from = byId.get(edge.fromNode)!;
+    const to = byId.get(edge.toNode)!;
+    const fromSide = SIDES.includes(edge.fromSide!) ? edge.fromSide! : facingSide(from, to);
+    const toSide = SIDES.includes(edge.toSide!) ? edge.toSide! : facingSide(to, from);
+
+    const offset = (p: Point) => ({ x: p.x - bounds.x, y: p.y - bounds.y });
+    const start = offset(sidePoint(from, fromSide));
+    const end = offset(sidePoint(to, toSide));
+
+    // Control points pull the curve straight out of each side
+    const distance = Math.hypot(end.x - start.x, end.y - start.y);
+    const pull = Math.min(150, Math.max(40, distance / 2));
+    const c1 = along(start, fromSide, pull);
+    const c2 = along(end, toSide, pull);
+
+    const color = canvasColor(edge.color);
+    const stroke = color ? ` style="--canvas-color:${color}"` : '';
+    const arrows = [
+      edge.fromEnd === 'arrow' ? arrowHead(start, fromSide) : '',
+      edge.toEnd !== 'none' ? arrowHead(end, toSide) : '',
+    ].join('');
+    paths.push(
+      `<g class="canvas-edge"${stroke}><path d="M${fmt(start)} C${fmt(c1)} ${fmt(c2)} ${fmt(end)}"/>${arrows}</g>`
+    );
+
+    if (edge.label) {
+      // Midpoint of the cubic curve (t = 0.5)
+      const mid = {
+        x: (start.x + 3 * c1.x + 3 * c2.x + end.x) / 8,
+        y: (start.y + 3 * c1.y + 3 * c2.y + end.y) / 8,
+      };
+      labels.push(
+        `<div class="canvas-edge-label" style="left:${round(mid.x)}px;top:${round(mid.y)}px">${escape(edge.label)}</div>`
+      );
+    }
+  }
+
+  const svg = `<svg class="canvas-edges" width="${bounds.width}" height="${bounds.height}" aria-hidden="true">${paths.join('')}</svg>`;
+  return { svg, labels: labels.join('') };
+}
+
+/**
+ * Pan (drag, wheel), zoom (ctrl/cmd + wheel, pinch, buttons, +/-/0 keys) and fit-to-screen
+ */
+export function canvasScript(nonceAttr: string, bounds: CanvasBounds): string {
+  return `<script${nonceAttr}>
+    (() => {
+      const viewport = document.getElementById('canvas-viewport');
+      const world = document.getElementById('canvas-world');
+      const W = ${bounds.width}, H = ${bounds.height};
+      let scale = 1, x = 0, y = 0;
+
+      const apply = () => {
+        world.style.transform = 'translate(' + x + 'px,' + y + 'px) scale(' + scale + ')';
+        viewport.style.setProperty('--canvas-zoom', scale);
+      };
+      const fit = () => {
+        const w = viewport.clientWidth, h = viewport.clientHeight;
+        scale = Math.max(${MIN_ZOOM}, Math.min(1, w / W, h / H));
+        x = (w - W * scale) / 2;
+        y = (h - H * scale) / 2;
+        apply();
+      };
+      const zoomAt = (cx, cy, factor) => {
+        const next = Math.min(${MAX_ZOOM}, Math.max(${MIN_ZOOM}, scale * factor));
+        x = cx - (cx - x) * (next / scale);
+        y = cy - (cy - y) * (next / scale);
+        scale = next;
+        apply();
+      };
+      const zoomCenter = (factor) => zoomAt(viewport.clientWidth / 2, viewport.clientHeight / 2, factor);
+
+      // Cards scroll their own overflowing content
+      const scrollsInside = (target, dy) => {
+        const card = target.closest && target.closest('.canvas-card-content');
+        if (!card || card.scrollHeight <= card.clientHeight) return false;
+        return dy < 0 ? card.scrollTop > 0 : card.scrollTop + card.clientHeight < card.scrollHeight;
+      };
+
+      viewport.addEventListener('wheel', (e) => {
+        const rect = viewport.getBoundingClientRect();
+        if (e.ctrlKey || e.metaKey) {
+          e.preventDefault();
+          zoomAt(e.clientX - rect.left, e.clientY - rect.top, Math.exp(-e.deltaY * 0.01));
+        } else if (!scrollsInside(e.target, e.deltaY)) {
+          e.preventDefault();
+          x -= e.deltaX;
+          y -= e.deltaY;
+          apply();
+        }
+      }, { passive: false });
+
+      // One pointer pans, two pinch-zoom around their midpoint
+      const pointers = new Map();
+      let pinch = 0;
+      viewport.addEventListener('pointerdown', (e) => {
+        // Links stay clickable; with a mouse, card text stays selectable
+        if (e.target.closest('a, button, video')) return;
+        if (e.pointerType === 'mouse' && e.target.closest('.canvas-card-content')) return;
+        viewport.setPointerCapture(e.pointerId);
+        pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+        viewport.classList.add('is-panning');
+      });
+      viewport.addEventListener('pointermove', (e) => {
+        const last = pointers.get(e.pointerId);
+        if (!last) return;
+        const point = { x: e.clientX, y: e.clientY };
+        if (pointers.size === 1) {
+          x += point.x - last.x;
+          y += point.y - last.y;
+          apply();
+        } else if (pointers.size === 2) {
+          const [a, b] = [...pointers.entries()].map(([id, p]) => id === e.pointerId ? point : p);
+          const rect = viewport.getBoundingClientRect();
+          const distance = Math.hypot(a.x - b.x, a.y - b.y);
+          if (pinch) zoomAt((a.x + b.x) / 2 - rect.left, (a.y + b.y) / 2 - rect.top, distance / pinch);
+          pinch = distance;
+        }
+        pointers.set(e.pointerId, point);
+      });
+      const release = (e) => {
+        pointers.delete(e.pointerId);
+        pinch = 0;
+        if (pointers.size === 0) viewport.classList.remove('is-panning');
+      };
+      viewport.addEventListener('pointerup', release);
+      viewport.addEventListener('pointercancel', release);
+
+      document.getElementById('canvas-zoom-in').onclick = () => zoomCenter(1.25);
+      document.getElementById('canvas-zoom-out').onclick = () => zoomCenter(0.8);
+      document.getElementById('canvas-zoom-fit').onclick = fit;
+      document.addEventListener('keydown', (e) => {
+        if (e.target.closest('input, textarea')) return;
+        if (e.key === '+' || e.key === '=') zoomCenter(1.25);
+        else if (e.key === '-') zoomCenter(0.8);
+        else if (e.key === '0') fit();
+      });
+
+      fit();
+    })();
+  </script>`;
+}
+
+export const CANVAS_CSS = `
+    html, body { height: 100%; overflow: hidden; }
+    .canvas-header {
+      position: fixed;
+      top: 0;
+      left: 0;
+      right: 0;
+      z-index: 10;
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 10px 70px 10px 16px;
+      background: var(--background-primary);
+      border-bottom: 1px solid var(--background-modifier-border);
+    }
+    .canvas-header .inline-title { font-size: 1.2em; margin: 0; flex: 1; min-width: 0; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+    .canvas-controls button {
+      background: var(--background-secondary);
+      color: var(--text-normal);
+      border: 1px solid var(--background-modifier-border);
+      border-radius: 4px;
+      min-width: 32px;
+      height: 28px;
+      cursor: pointer;
+    }
+    #canvas-viewport {
+      position: fixed;
+      inset: 0;
+      overflow: hidden;
+      touch-action: none;
+      cursor: grab;
+      background-color: var(--background-primary);
+      background-image: radial-gradient(var(--background-modifier-border) 1px, transparent 1px);
+      background-size: 20px 20px;
+    }
+    #canvas-viewport.is-panning { cursor: grabbing; }
+    #canvas-world { position: absolute; top: 0; left: 0; transform-origin: 0 0; }
+    .canvas-node { position: absolute; --canvas-color: var(--background-modifier-border); }
+    .canvas-group {
+      border: 2px solid var(--canvas-color);
+      border-radius: 8px;
+      background: color-mix(in srgb, var(--canvas-color) 8%, transparent);
+    }
+    .canvas-node-label {
+      position: absolute;
+      bottom: 100%;
+      left: 0;
+      max-width: 100%;
+      padding-bottom: 4px;
+      color: var(--text-muted);
+      font-size: 0.9em;
+      white-space: nowrap;
+      overflow: hidden;
+      text-overflow: ellipsis;
+    }
+    .canvas-group > .canvas-node-label { font-size: 1.2em; color: var(--text-normal); }
+    .canvas-card {
+      border: 2px solid var(--canvas-color);
+      border-radius: 8px;
+      background: var(--background-primary);
+      box-shadow: 0 2px 8px rgba(0, 0, 0, 0.15);
+    }
+    .canvas-card-content { height: 100%; overflow: auto; padding: 8px 16px; cursor: auto; }
+    .canvas-card-content > :first-child { margin-top: 0; }
+    .canvas-card-content img, .canvas-card-content video { display: block; max-width: 100%; margin: 0 auto; }
+    .canvas-card-media .canvas-card-content { padding: 0; display: flex; align-items: center; justify-content: center; }
+    .canvas-card-media .canvas-card-content p { margin: 0; }
+    .canvas-card-link .canvas-card-content { display: flex; align-items: center; justify-content: center; word-break: break-all; }
+    .canvas-card.has-color { background: color-mix(in srgb, var(--canvas-color) 10%, var(--background-primary)); }
+    .canvas-edges { position: absolute; top: 0; left: 0; overflow: visible; pointer-events: none; }
+    .canvas-edge { --canvas-color: var(--text-muted); }
+    .canvas-edge path { fill: none; stroke: var(--canvas-color); stroke-width: 2; }
+    .canvas-edge polygon { fill: var(--canvas-color); }
+    .canvas-edge-label {
+      position: absolute;
+      transform: translate(-50%, -50%);
+      padding: 2px 6px;
+      border-radius: 4px;
+      background: var(--background-primary);
+      color: var(--text-muted);
+      font-size: 0.85em;
+      white-space: nowrap;
+    }
+`;
+
+/**
+ * Side of a node facing another node (used when an edge doesn't name its sides)
+ */
+function facingSide(node: SharedCanvasNode, other: SharedCanvasNode): CanvasSide {
+  const dx = (other.x + other.width / 2) - (node.x + node.width / 2);
+  const dy = (other.y + other.height / 2) - (node.y + node.height / 2);
+  if (Math.abs(dx) * node.height > Math.abs(dy) * node.width) return dx > 0 ? 'right' : 'left';
+  return dy > 0 ? 'bottom' : 'top';
+}
+
+function sidePoint(node: SharedCanvasNode, side: CanvasSide): Point {
+  switch (side) {
+    case 'top': return { x: node.x + node.width / 2, y: node.y };
+    case 'right': return { x: node.x + node.width, y: node.y + node.height / 2 };
+    case 'bottom': return { x: node.x + node.width / 2, y: node.y + node.height };
+    case 'left': return { x: node.x, y: node.y + node.height / 2 };
+  }
+}
+
+/**
+ * A point moved outward from a node side
+ */
+function along(point: Point, side: CanvasSide, distance: number): Point {
+  switch (side) {
+    case 'top': return { x: point.x, y: point.y - distance };
+    case 'right': return { x: point.x + distance, y: point.y };
+    case 'bottom': return { x: point.x, y: point.y + distance };
+    case 'left': return { x: point.x - distance, y: point.y };
+  }
+}
+
+/**
+ * Arrowhead touching a node side, pointing into the node
+ */
+function arrowHead(tip: Point, side: CanvasSide): string {
+  const base = along(tip, side, ARROW_LENGTH);
+  const horizontal = side === 'left' || side === 'right';
+  const a = horizontal ? { x: base.x, y: base.y - ARROW_WIDTH } : { x: base.x - ARROW_WIDTH, y: base.y };
+  const b = horizontal ? { x: base.x, y: base.y + ARROW_WIDTH } : { x: base.x + ARROW_WIDTH, y: base.y };
+  return `<polygon points="${fmt(tip)} ${fmt(a)} ${fmt(b)}"/>`;
+}
+
+function fmt(point: Point): string {
+  return `${round(point.x)},${round(point.y)}`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
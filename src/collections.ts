@@ -0,0 +1,88 @@
+import { generateNoteHash } from '@obsidian-note-share/shared';
+import { Collection, CollectionIndex, NoteIndex } from './types';
+import { updateJson } from './r2-json';
+
+// Collection hashes come from the folder path, namespaced away from note titles
+const HASH_PREFIX = 'collection:';
+
+/**
+ * Stable, unguessable id for a shared folder (same secret as note hashes)
+ */
+export function collectionHash(vault: string, folder: string, secret?: string): Promise<string> {
+  return generateNoteHash(vault, `${HASH_PREFIX}${folder}`, secret);
+}
+
+/**
+ * Read a vault's shared folders ({vault}/collections.json)
+ */
+export async function getCollectionIndex(bucket: R2Bucket, vault: string): Promise<CollectionIndex> {
+  const obj = await bucket.get(`${vault}/collections.json`);
+  if (!obj) return { collections: [] };
+  return obj.json<CollectionIndex>();
+}
+
+/**
+ * Add or replace a collection (matched by hash)
+ */
+export async function putCollection(bucket: R2Bucket, vault: string, collection: Collection): Promise<void> {
+  await updateJson<CollectionIndex>(bucket, `${vault}/collections.json`, (index = { collections: [] }) => ({
+    collections: [collection, ...index.collections.filter((c) => c.hash !== collection.hash)],
+  }));
+}
+
+/**
+ * Remove a collection; returns it, or undefined if it did not exist. Its notes stay shared.
+ */
+export async function removeCollection(bucket: R2Bucket, vault: string, slug: string, hash: string): Promise<Collection | undefined> {
+  let removed: Collection | undefined;
+  await updateJson<CollectionIndex>(bucket, `${vault}/collections.json`, (index) => {
+    removed = index?.collections.find((c) => c.slug === slug && c.hash === hash);
+    if (!index || !removed) return undefined;
+    return { collections: index.collections.filter((c) => c !== removed) };
+  });
+  return removed;
+}
+
+/**
+ * Re-key collections after a URL secret change
+ * (hashMap: `${titleSlug}:${oldHash}` -> newHash for notes)
+ */
+export async function remapCollections(
+  bucket: R2Bucket,
+  vault: string,
+  secret: string | null,
+  hashMap: Map<string, string>
+): Promise<void> {
+  // Hashing is async, so compute the new collection hashes before the (synchronous) update
+  const { collections } = await getCollectionIndex(bucket, vault);
+  if (collections.length === 0) return;
+  const newHashes = new Map<string, string>();
+  for (const collection of collections) {
+    newHashes.set(collection.folder, await collectionHash(vault, collection.folder, secret || undefined));
+  }
+
+  await updateJson<CollectionIndex>(bucket, `${vault}/collections.json`, (index = { collections: [] }) => ({
+    collections: index.collections.map((collection) => ({
+      ...collection,
+      hash: newHashes.get(collection.folder) || collection.hash,
+      notes: collection.notes.map((n) => ({ ...n, hash: hashMap.get(`${n.titleSlug}:${n.hash}`) || n.hash })),
+    })),
+  }));
+}
+
+/**
+ * A collection with notes no longer shared left out
+ */
+export function liveCollection(collection: Collection, index: NoteIndex['notes']): Collection {
+  const shared = new Set(index.map((n) => n.hash));
+  return { ...collection, notes: collection.notes.filter((n) => shared.has(n.hash)) };
+}
+
+/**
+ * The most specific collection containing a note (nested shared folders pick the deepest)
+ */
+export function findCollection(index: CollectionIndex, noteHash: string): Collection | undefined {
+  return index.collections
+    .filter((c) => c.notes.some((n) => n.hash === noteHash))
+    .sort((a, b) => b.folder.length - a.folder.length)[0];
+}
@@ -0,0 +1,134 @@
+export interface DiffLine {
+  type: 'same' | 'add' | 'remove';
+  text: string;
+}
+
+// Changed lines (after trimming the common prefix/suffix) above which the diff
+// is shown as one removed and one added block: Myers' time grows with lines x edits
+const MAX_DIFF_LINES = 10000;
+
+/**
+ * Line diff using the linear-space variant of Myers' O(ND) algorithm.
+ * Common prefix/suffix are trimmed first so typical edits stay cheap.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const result: DiffLine[] = a.slice(0, start).map((text) => ({ type: 'same', text }));
+  if (endA - start + (endB - start) > MAX_DIFF_LINES) {
+    result.push(...a.slice(start, endA).map((text): DiffLine => ({ type: 'remove', text })));
+    result.push(...b.slice(start, endB).map((text): DiffLine => ({ type: 'add', text })));
+  } else {
+    myers(a, start, endA, b, start, endB, result);
+  }
+  result.push(...a.slice(endA).map((text): DiffLine => ({ type: 'same', text })));
+  return result;
+}
+
+/**
+ * Diff a[aLo..aHi) against b[bLo..bHi) into `out`: split both at the middle
+ * snake of a shortest edit script and recurse on each side, so memory stays
+ * O(N + M) instead of keeping the search frontier of every edit step
+ */
+function myers(a: string[], aLo: number, aHi: number, b: string[], bLo: number, bHi: number, out: DiffLine[]): void {
+  while (aLo < aHi && bLo < bHi && a[aLo] === b[bLo]) {
+    out.push({ type: 'same', text: a[aLo++] });
+    bLo++;
+  }
+  let suffix = 0;
+  while (aHi - suffix > aLo && bHi - suffix > bLo && a[aHi - suffix - 1] === b[bHi - suffix - 1]) suffix++;
+  aHi -= suffix;
+  bHi -= suffix;
+
+  if (aLo === aHi) {
+    for (let y = bLo; y < bHi; y++) out.push({ type: 'add', text: b[y] });
+  } else if (bLo === bHi) {
+    for (let x = aLo; x < aHi; x++) out.push({ type: 'remove', text: a[x] });
+  } else {
+    const snake = middleSnake(a, aLo, aHi, b, bLo, bHi);
+    myers(a, aLo, aLo + snake.x, b, bLo, bLo + snake.y, out);
+    for (let x = snake.x; x < snake.u; x++) out.push({ type: 'same', text: a[aLo + x] });
+    myers(a, aLo + snake.u, aHi, b, bLo + snake.v, bHi, out);
+  }
+
+  for (let i = suffix; i > 0; i--) out.push({ type: 'same', text: a[aHi + suffix - i] });
+}
+
+/**
+ * Middle snake of a shortest edit script, from (x, y) to (u, v) relative to
+ * (aLo, bLo): searched from both ends at once until the paths overlap
+ */
+function middleSnake(
+  a: string[],
+  aLo: number,
+  aHi: number,
+  b: string[],
+  bLo: number,
+  bHi: number
+): { x: number; y: number; u: number; v: number } {
+  const n = aHi - aLo;
+  const m = bHi - bLo;
+  const delta = n - m;
+  const odd = (delta & 1) !== 0;
+  const max = Math.ceil((n + m) / 2);
+
+  // forward[k + offset] = furthest x on diagonal k from the start; backward
+  // the same from the end (its diagonal k meets forward diagonal delta - k)
+  const offset = max + 1;
+  const forward = new Int32Array(2 * max + 3);
+  const backward = new Int32Array(2 * max + 3);
+
+  for (let d = 0; d <= max; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && forward[k - 1 + offset] < forward[k + 1 + offset])
+        ? forward[k + 1 + offset]
+        : forward[k - 1 + offset] + 1;
+      let y = x - k;
+      const startX = x;
+      const startY = y;
+      while (x < n && y < m && a[aLo + x] === b[bLo + y]) {
+        x++;
+        y++;
+      }
+      forward[k + offset] = x;
+
+      const back = delta - k;
+      if (odd && back >= -(d - 1) && back <= d - 1 && x + backward[back + offset] >= n) {
+        return { x: startX, y: startY, u: x, v: y };
+      }
+    }
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && backward[k - 1 + offset] < backward[k + 1 + offset])
+        ? backward[k + 1 + offset]
+        : backward[k - 1 + offset] + 1;
+      let y = x - k;
+      const startX = x;
+      const startY = y;
+      while (x < n && y < m && a[aHi - x - 1] === b[bHi - y - 1]) {
+        x++;
+        y++;
+      }
+      backward[k + offset] = x;
+
+      const fwd = delta - k;
+      if (!odd && fwd >= -d && fwd <= d && x + forward[fwd + offset] >= n) {
+        return { x: n - x, y: m - y, u: n - startX, v: m - startY };
+      }
+    }
+  }
+
+  // The searches always meet by d = ceil((n + m) / 2)
+  throw new Error('No middle snake found');
+}
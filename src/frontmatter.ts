@@ -0,0 +1,135 @@
+import { parse } from 'yaml';
+
+// Leading YAML block: ---\n...\n--- (Obsidian properties)
+const FRONTMATTER_REGEX = /^---\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)/;
+
+// Properties never shown in the rendered properties table
+const HIDDEN_PROPERTIES = new Set(['share', 'cssclasses', 'cssclass', 'publish', 'position']);
+
+export interface Frontmatter {
+  data: Record<string, unknown>;
+  body: string; // content without the frontmatter block
+}
+
+/**
+ * Options a note can set for itself via share-* properties
+ */
+export interface ShareOptions {
+  title?: string;
+  description?: string;
+  expiresAt?: string; // ISO timestamp
+  noindex: boolean;
+  lineNumbers: boolean; // show line numbers in code blocks
+  password?: string;
+  properties?: string[] | false; // explicit property list, or false to hide the table
+  aliases: string[]; // Obsidian aliases (not a share-* option, but read alongside them)
+  tags: string[]; // Obsidian tags without '#', for filtering the note list
+}
+
+/**
+ * Split a note into its frontmatter properties and body.
+ * Invalid YAML is treated as no frontmatter (but still hidden from the body).
+ */
+export function parseFrontmatter(content: string): Frontmatter {
+  const match = content.match(FRONTMATTER_REGEX);
+  if (!match) return { data: {}, body: content };
+
+  const body = content.slice(match[0].length);
+  try {
+    const data = parse(match[1] ?? '');
+    return { data: data && typeof data === 'object' && !Array.isArray(data) ? data : {}, body };
+  } catch {
+    return { data: {}, body };
+  }
+}
+
+function asString(value: unknown): string | undefined {
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (typeof value === 'number') return String(value);
+  return undefined;
+}
+
+function asStringList(value: unknown): string[] {
+  const list = Array.isArray(value) ? value : [value];
+  return list.map(asString).filter((v): v is string => v !== undefined);
+}
+
+function asBoolean(value: unknown): boolean {
+  return value === true || value === 'true' || value === 'yes';
+}
+
+export function getShareOptions(data: Record<string, unknown>): ShareOptions {
+  const options: ShareOptions = {
+    title: asString(data['share-title']),
+    description: asString(data['share-description']),
+    noindex: asBoolean(data['share-noindex']),
+    lineNumbers: asBoolean(data['share-line-numbers']),
+    password: asString(data['share-password']),
+    aliases: asStringList(data.aliases ?? data.alias),
+    // `tags: a, b` and `tags: [a, b]` are both lists in Obsidian
+    tags: asStringList(data.tags ?? data.tag)
+      .flatMap((t) => t.split(/[\s,]+/))
+      .map((t) => t.replace(/^#/, ''))
+      .filter(Boolean),
+  };
+
+  // YAML may parse bare dates into Date objects
+  const expires = data['share-expires'];
+  const expiresDate = expires instanceof Date ? expires : typeof expires === 'string' ? new Date(expires) : undefined;
+  if (expiresDate && !isNaN(expiresDate.getTime())) {
+    options.expiresAt = expiresDate.toISOString();
+  }
+
+  const properties = data['share-properties'];
+  if (properties === false) {
+    options.properties = false;
+  } else if (Array.isArray(properties)) {
+    options.properties = properties.map(String);
+  }
+
+  return options;
+}
+
+/**
+ * Properties to show in the rendered table (share-* and internal keys excluded)
+ */
+export function getVisibleProperties(data: Record<string, unknown>, options: ShareOptions): [string, unknown][] {
+  if (options.properties === false) return [];
+
+  const keys = options.properties ?? Object.keys(data);
+  return keys
+    .filter((key) => key in data && !key.startsWith('share-') && !HIDDEN_PROPERTIES.has(key))
+    .map((key) => [key, data[key]]);
+}
+
+/**
+ * Read share-* options from a note about to be stored, removing share-password
+ * from the content so the plaintext is never persisted
+ */
+export function prepareSharedContent(content: string): { content: string; options: ShareOptions } {
+  const { data } = parseFrontmatter(content);
+  const options = getShareOptions(data);
+  if ('share-password' in data) {
+    content = removeFrontmatterKey(content, 'share-password');
+  }
+  return { content, options };
+}
+
+/**
+ * Remove a top-level key (and any indented continuation lines) from the frontmatter text
+ */
+export function removeFrontmatterKey(content: string, key: string): string {
+  const match = content.match(FRONTMATTER_REGEX);
+  if (!match) return content;
+
+  const lines = (match[1] ?? '').split(/\r?\n/);
+  const kept: string[] = [];
+  let skipping = false;
+  for (const line of lines) {
+    if (skipping && /^\s+\S|^\s*-\s/.test(line)) continue;
+    skipping = line.startsWith(`${key}:`);
+    if (!skipping) kept.push(line);
+  }
+
+  return `---\n${kept.join('\n')}\n---\n${content.slice(match[0].length)}`;
+}
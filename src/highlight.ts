@@ -0,0 +1,48 @@
+import hljs from 'highlight.js/lib/common';
+
+const TAG_REGEX = /<span[^>]*>|<\/span>/g;
+
+/**
+ * Highlight a fenced code block. Unknown or missing languages are escaped only
+ * (no auto-detection - it is slow and often wrong on short snippets).
+ * Every line is wrapped in a .code-line span so line numbers can be shown with CSS.
+ */
+export function highlightCode(code: string, lang: string, escape: (text: string) => string): string {
+  const language = lang && hljs.getLanguage(lang) ? lang : '';
+  const highlighted = language
+    ? hljs.highlight(code, { language, ignoreIllegals: true }).value
+    : escape(code);
+
+  const classes = lang ? `hljs language-${escape(lang)}` : 'hljs';
+  const lines = splitLines(highlighted.replace(/\n$/, ''))
+    .map((line) => `<span class="code-line">${line}</span>`)
+    .join('\n');
+
+  return `<div class="code-block"><button class="copy-code-button" type="button" aria-label="Copy code">Copy</button>` +
+    `<pre><code class="${classes}">${lines}\n</code></pre></div>\n`;
+}
+
+/**
+ * Split highlighted HTML into lines, closing spans that cross a line break
+ * and re-opening them on the next line so each line is well-formed
+ */
+function splitLines(html: string): string[] {
+  const lines: string[] = [];
+  let open: string[] = [];
+
+  for (const raw of html.split('\n')) {
+    const line = open.join('') + raw;
+
+    // Track spans still open at the end of this line
+    const stack = [...open];
+    for (const tag of raw.match(TAG_REGEX) || []) {
+      if (tag === '</span>') stack.pop();
+      else stack.push(tag);
+    }
+    open = stack;
+
+    lines.push(line + '</span>'.repeat(stack.length));
+  }
+
+  return lines;
+}
@@ -1,12 +1,33 @@
 import { Hono } from 'hono';
+import type { Context } from 'hono';
 import { cors } from 'hono/cors';
 import { slugify, generateNoteHash } from '@obsidian-note-share/shared';
-import { Env, ShareRequest, StoredNote, NoteIndex, ThemeSyncRequest, DualThemeSettings } from './types';
-import { renderNote } from './render';
+import { AppEnv, Env, ShareRequest, StoredNote, NoteIndex, NoteListResponse, NoteStats, RecentView, ViewLog, BacklinkIndex, Collection, CollectionIndex, CollectionRequest, CollectionResponse, ThemeSyncRequest, DualThemeSettings, PasswordRequest, NoteChangeResponse, RekeyRequest, CreateApiKeyRequest, HtmlPolicyRequest, FrameAncestorsRequest, VaultConfig } from './types';
+import { renderNote, renderCanvas, renderUnlockPage, renderDiffPage, renderCollectionPage } from './render';
+import { isValidCanvas } from './canvas';
+import { resolvePassword, verifyPassword, isUnlocked, setUnlockCookie } from './password';
+import { getVaultConfig, updateVaultConfig } from './vault-config';
+import { rekeyVault, getRedirect, cleanupExpiredRedirects } from './rekey';
+import { maxRevisions, archiveRevision, listRevisions, getRevision, restoreRevision, deleteRevisions } from './revisions';
+import { diffLines } from './diff';
+import { ShareOptions, prepareSharedContent } from './frontmatter';
+import { authenticate, can, canAccessVault, canManageKeys, validateKeyRequest, createApiKey, listApiKeys, revokeApiKey } from './auth';
+import { validateHtmlPolicy } from './sanitize';
+import { generateNonce, pageCsp, uploadHeaders, validateFrameAncestors } from './security';
+import { getBacklinkIndex, updateBacklinks, removeBacklinks, linkedMentions } from './backlinks';
+import { collectionHash, getCollectionIndex, putCollection, removeCollection, liveCollection, findCollection } from './collections';
+import { EDGE_CACHE_TTL, PAGE_CACHE_CONTROL, pageUrl, pageValidators, isNotModified, validatorHeaders, getCachedPage, putCachedPage, purgePages } from './page-cache';
+import { updateJson } from './r2-json';
+import { visitorHash, recordView, recordRead, parseReadReport, parseStatsRange, queryStats, deleteDailyStats, cleanupVisitorSalts } from './analytics';
+import { IndexEntry, readIndex, addToIndex, removeFromIndex, updateIndexEntry, syncIndexViews, isIndexed, listIndex, parseNoteQuery } from './note-index';
+import { PRERENDER_NONCE, RenderedPage, getRendered, putRendered, deleteRendered, isStale, withNonce, rerenderStalePages } from './prerender';
 
 // Cache duration for images (1 year in seconds)
 const IMAGE_CACHE_MAX_AGE = 31536000;
 
+// View logs the scheduled job copies into note lists: a daily cron plus a day of overlap
+const VIEW_SYNC_WINDOW = 2 * 24 * 60 * 60 * 1000; // 2 days
+
 // In-memory theme cache with TTL
 const themeCache = new Map<string, { theme: DualThemeSettings; expires: number }>();
 const THEME_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
@@ -25,7 +46,83 @@ async function getTheme(env: Env, vault: string): Promise<DualThemeSettings | un
   return theme;
 }
 
-const app = new Hono<{ Bindings: Env }>();
+// Vault config used while rendering (HTML policy), cached like themes
+const configCache = new Map<string, { config: VaultConfig; expires: number }>();
+
+async function getRenderConfig(env: Env, vault: string): Promise<VaultConfig> {
+  const cached = configCache.get(vault);
+  if (cached && cached.expires > Date.now()) {
+    return cached.config;
+  }
+
+  const config = await getVaultConfig(env.NOTES, vault);
+  configCache.set(vault, { config, expires: Date.now() + THEME_CACHE_TTL });
+  return config;
+}
+
+// Vault index used to resolve wikilinks while rendering (short TTL - every share updates it)
+const indexCache = new Map<string, { notes: NoteIndex['notes']; expires: number }>();
+const INDEX_CACHE_TTL = 60 * 1000; // 1 minute
+
+async function getLinkIndex(env: Env, vault: string): Promise<NoteIndex['notes']> {
+  const cached = indexCache.get(vault);
+  if (cached && cached.expires > Date.now()) {
+    return cached.notes;
+  }
+
+  const notes = await readIndex(env.NOTES, vault);
+  indexCache.set(vault, { notes, expires: Date.now() + INDEX_CACHE_TTL });
+  return notes;
+}
+
+// Backlink index for "Linked mentions" (same TTL as the link index)
+const backlinkCache = new Map<string, { backlinks: BacklinkIndex; expires: number }>();
+
+async function getBacklinks(env: Env, vault: string): Promise<BacklinkIndex> {
+  const cached = backlinkCache.get(vault);
+  if (cached && cached.expires > Date.now()) {
+    return cached.backlinks;
+  }
+
+  const backlinks = await getBacklinkIndex(env.NOTES, vault);
+  backlinkCache.set(vault, { backlinks, expires: Date.now() + INDEX_CACHE_TTL });
+  return backlinks;
+}
+
+// Shared folders, for collection pages and the navigation sidebar (same TTL as the link index)
+const collectionCache = new Map<string, { collections: CollectionIndex; expires: number }>();
+
+async function getCollections(env: Env, vault: string): Promise<CollectionIndex> {
+  const cached = collectionCache.get(vault);
+  if (cached && cached.expires > Date.now()) {
+    return cached.collections;
+  }
+
+  const collections = await getCollectionIndex(env.NOTES, vault);
+  collectionCache.set(vault, { collections, expires: Date.now() + INDEX_CACHE_TTL });
+  return collections;
+}
+
+const app = new Hono<AppEnv>();
+
+// Security headers on every response; HTML pages also get a nonce-based CSP
+app.use('*', async (c, next) => {
+  c.set('nonce', generateNonce());
+  await next();
+
+  const headers = c.res.headers;
+  headers.set('X-Content-Type-Options', 'nosniff');
+  // Note URLs are unguessable - never leak them to linked sites
+  headers.set('Referrer-Policy', 'no-referrer');
+
+  if (headers.get('Content-Type')?.startsWith('text/html') && !headers.has('Content-Security-Policy')) {
+    const frameAncestors = c.get('frameAncestors');
+    headers.set('Content-Security-Policy', pageCsp(c.get('nonce'), frameAncestors));
+    if (!frameAncestors?.length) {
+      headers.set('X-Frame-Options', 'DENY');
+    }
+  }
+});
 
 // Enable CORS for plugin requests
 app.use('/api/*', cors());
@@ -36,13 +133,73 @@ app.use('/api/*', async (c, next) => {
     await next();
     return;
   }
-  const apiKey = c.req.header('X-API-Key');
-  if (!apiKey || apiKey !== c.env.API_KEY) {
+  const result = await authenticate(c.env, c.req.header('X-API-Key'));
+  if (!result) {
     return c.json({ error: 'Unauthorized' }, 401);
   }
+  if (result.touch) {
+    c.executionCtx.waitUntil(result.touch);
+  }
+  c.set('auth', result.auth);
   await next();
 });
 
+const forbidden = { error: 'Forbidden' };
+
+// Mint a scoped API key (admin) - the key is only returned once
+app.post('/api/keys', async (c) => {
+  if (!canManageKeys(c.get('auth'))) {
+    return c.json(forbidden, 403);
+  }
+
+  try {
+    const body = await c.req.json<CreateApiKeyRequest>();
+    const error = validateKeyRequest(body);
+    if (error) {
+      return c.json({ error }, 400);
+    }
+
+    const { key, record } = await createApiKey(c.env.NOTES, body);
+    const { keyHash, ...info } = record;
+    return c.json({ key, ...info }, 201);
+  } catch (e) {
+    console.error('Key create error:', e);
+    return c.json({ error: 'Failed to create key' }, 500);
+  }
+});
+
+// List API keys (admin)
+app.get('/api/keys', async (c) => {
+  if (!canManageKeys(c.get('auth'))) {
+    return c.json(forbidden, 403);
+  }
+
+  try {
+    return c.json(await listApiKeys(c.env.NOTES));
+  } catch (e) {
+    console.error('Key list error:', e);
+    return c.json({ error: 'Failed to list keys' }, 500);
+  }
+});
+
+// Revoke an API key (admin)
+app.delete('/api/keys/:id', async (c) => {
+  if (!canManageKeys(c.get('auth'))) {
+    return c.json(forbidden, 403);
+  }
+
+  try {
+    const revoked = await revokeApiKey(c.env.NOTES, c.req.param('id'));
+    if (!revoked) {
+      return c.json({ error: 'Key not found' }, 404);
+    }
+    return c.json({ success: true });
+  } catch (e) {
+    console.error('Key revoke error:', e);
+    return c.json({ error: 'Failed to revoke key' }, 500);
+  }
+});
+
 // Health check endpoint - tests R2 connectivity
 app.get('/api/status', async (c) => {
   try {
@@ -73,21 +230,22 @@ app.put('/api/theme', async (c) => {
       return c.json({ error: 'Missing vault, theme, or mode' }, 400);
     }
 
-    // Read existing dual theme (if any)
-    let dualTheme: DualThemeSettings = {};
-    const existing = await c.env.NOTES.get(`${body.vault}/theme.json`);
-    if (existing) {
-      dualTheme = await existing.json();
+    if (!can(c.get('auth'), 'theme', body.vault)) {
+      return c.json(forbidden, 403);
     }
 
-    // Merge incoming theme into the correct slot
-    dualTheme[body.mode] = body.theme;
-    dualTheme.updatedAt = new Date().toISOString();
+    // Merge incoming theme into the correct slot of the existing dual theme (if any);
+    // syncing light and dark at once must keep both
+    await updateJson<DualThemeSettings>(c.env.NOTES, `${body.vault}/theme.json`, (dualTheme = {}) => ({
+      ...dualTheme,
+      [body.mode]: body.theme,
+      updatedAt: new Date().toISOString(),
+    }));
 
-    await c.env.NOTES.put(`${body.vault}/theme.json`, JSON.stringify(dualTheme));
-
-    // Invalidate theme cache
+    // Invalidate theme cache; every page in the vault renders differently now
+    // (pages not rebuilt in time are served stale until the scheduled re-render)
     themeCache.delete(body.vault);
+    refreshAfterResponse(c, body.vault, await getLinkIndex(c.env, body.vault));
 
     return c.json({ success: true });
   } catch (e) {
@@ -105,11 +263,23 @@ app.post('/api/share', async (c) => {
       return c.json({ error: 'Missing required fields' }, 400);
     }
 
+    if (!can(c.get('auth'), 'share', body.vault)) {
+      return c.json(forbidden, 403);
+    }
+
+    if (body.kind === 'canvas' && !isValidCanvas(body.content)) {
+      return c.json({ error: 'Invalid canvas' }, 400);
+    }
+
+    const { hashSecret } = await getVaultConfig(c.env.NOTES, body.vault);
     const titleSlug = slugify(body.title);
-    const hash = await generateNoteHash(body.vault, body.title);
+    const hash = await generateNoteHash(body.vault, body.title, hashSecret);
     const linkedNotes: { titleSlug: string; hash: string }[] = [];
-    const notesToIndex: { titleSlug: string; hash: string; title: string; createdAt: string }[] = [];
+    const linkedByTitle = new Map<string, { titleSlug: string; hash: string }>();
+    const notesToIndex: NoteIndex['notes'] = [];
+    const storedNotes: StoredNote[] = [];
     const now = new Date().toISOString();
+    const revisionCap = maxRevisions(c.env);
 
     // Store linked notes in parallel for better performance
     if (body.linkedNotes && body.linkedNotes.length > 0) {
@@ -117,74 +287,103 @@ app.post('/api/share', async (c) => {
       const linkedNotesData = await Promise.all(
         body.linkedNotes.map(async (linked) => {
           const linkedTitleSlug = slugify(linked.title);
-          const linkedHash = await generateNoteHash(body.vault, linked.title);
+          const linkedHash = await generateNoteHash(body.vault, linked.title, hashSecret);
           const existingObj = await c.env.NOTES.get(`notes/${linkedTitleSlug}-${linkedHash}.json`);
           const existingNote = existingObj ? await existingObj.json() as StoredNote : null;
           return { linked, linkedTitleSlug, linkedHash, existingNote };
         })
       );
+      for (const { linked, linkedTitleSlug, linkedHash } of linkedNotesData) {
+        linkedByTitle.set(linked.title, { titleSlug: linkedTitleSlug, hash: linkedHash });
+      }
 
       // Then store all linked notes in parallel (collect index entries)
       await Promise.all(
         linkedNotesData.map(async ({ linked, linkedTitleSlug, linkedHash, existingNote }) => {
           const linkedCreatedAt = existingNote?.createdAt || now;
+          const prepared = prepareSharedContent(linked.content);
+          const linkedPassword = await resolvePassword(prepared.options.password, existingNote?.password);
 
           const linkedNote: StoredNote = {
             vault: body.vault,
             titleSlug: linkedTitleSlug,
             hash: linkedHash,
             title: linked.title,
-            content: linked.content,
+            content: prepared.content,
             createdAt: linkedCreatedAt,
             updatedAt: now,
-            linkedNotes: [],
+            // Links to other notes shared in this request (recursive shares)
+            linkedNotes: resolveRequestLinks(linked.links, linkedByTitle),
+            // Keep protection if the linked note was shared with a password
+            password: linkedPassword,
+            revision: await archiveRevision(c.env.NOTES, existingNote, { title: linked.title, content: prepared.content }, revisionCap),
+            expiresAt: prepared.options.expiresAt,
           };
 
           await c.env.NOTES.put(
             `notes/${linkedTitleSlug}-${linkedHash}.json`,
             JSON.stringify(linkedNote)
           );
+          storedNotes.push(linkedNote);
 
           linkedNotes.push({ titleSlug: linkedTitleSlug, hash: linkedHash });
-          notesToIndex.push({
-            titleSlug: linkedTitleSlug,
-            hash: linkedHash,
-            title: linked.title,
-            createdAt: linkedCreatedAt,
-          });
+          notesToIndex.push(indexEntry(linkedNote, prepared.options));
         })
       );
     }
 
-    // Check if main note already exists (preserve createdAt)
+    // Check if main note already exists (preserve createdAt and password)
     let createdAt = now;
+    let existing: StoredNote | undefined;
     const existingNote = await c.env.NOTES.get(`notes/${titleSlug}-${hash}.json`);
     if (existingNote) {
-      const existing: StoredNote = await existingNote.json();
+      existing = await existingNote.json<StoredNote>();
       createdAt = existing.createdAt;
     }
 
+    // share-* properties (share-password is hashed and removed from the stored content)
+    const prepared = prepareSharedContent(body.content);
+    const requestedPassword = body.password !== undefined ? body.password : prepared.options.password;
+    const password = await resolvePassword(requestedPassword, existing?.password);
+    const revision = await archiveRevision(c.env.NOTES, existing, { title: body.title, content: prepared.content }, revisionCap);
+
     // Store main note
     const note: StoredNote = {
       vault: body.vault,
       titleSlug,
       hash,
       title: body.title,
-      content: body.content,
+      content: prepared.content,
       createdAt,
       updatedAt: now,
-      linkedNotes,
+      linkedNotes: body.links ? resolveRequestLinks(body.links, linkedByTitle) : linkedNotes,
       retentionDays: body.retentionDays || 0,
+      password,
+      revision,
+      expiresAt: prepared.options.expiresAt,
+      kind: body.kind === 'canvas' ? 'canvas' : undefined,
     };
 
     // Store note globally (vault info is inside the JSON)
     await c.env.NOTES.put(`notes/${titleSlug}-${hash}.json`, JSON.stringify(note));
+    storedNotes.push(note);
 
     // Add main note to batch index (unshift to put it first in the list)
-    notesToIndex.unshift({ titleSlug, hash, title: body.title, createdAt });
+    notesToIndex.unshift(indexEntry(note, prepared.options));
 
     // Single batch index update for all notes
-    await batchAddToIndex(c.env.NOTES, body.vault, notesToIndex);
+    await addToIndex(c.env.NOTES, body.vault, notesToIndex);
+    indexCache.delete(body.vault);
+
+    // Backlinks resolve against the updated index
+    const mentioned = await updateBacklinks(c.env.NOTES, body.vault, storedNotes, await getLinkIndex(c.env, body.vault));
+    backlinkCache.delete(body.vault);
+
+    // Render the shared pages now; pages whose linked mentions changed follow in the background
+    await Promise.all(storedNotes.map((n) => prerenderNote(c.env, n)));
+    purgeAfterResponse(c, body.vault, notesToIndex);
+    const shared = new Set(storedNotes.map((n) => n.hash));
+    refreshAfterResponse(c, body.vault, mentioned.filter((n) => !shared.has(n.hash)));
 
     const baseUrl = `${new URL(c.req.url).origin}`;
 
@@ -199,7 +398,179 @@ app.post('/api/share', async (c) => {
   }
 });
 
-// List all notes for a vault
+// Change a vault's URL secret and re-key its shared notes
+app.post('/api/vault/rekey', async (c) => {
+  try {
+    const body = await c.req.json<RekeyRequest>();
+
+    if (!body.vault) {
+      return c.json({ error: 'Missing vault' }, 400);
+    }
+
+    // Re-keying moves and deletes notes
+    const auth = c.get('auth');
+    if (!can(auth, 'share', body.vault) || !can(auth, 'delete', body.vault)) {
+      return c.json(forbidden, 403);
+    }
+
+    // Redirects are opt-in: they lead anyone with a guessable old URL to the new one
+    const redirectDays = Math.max(0, body.redirectDays ?? 0);
+    const result = await rekeyVault(c.env.NOTES, body.vault, body.secret, redirectDays);
+    configCache.delete(body.vault);
+    indexCache.delete(body.vault);
+    backlinkCache.delete(body.vault);
+    collectionCache.delete(body.vault);
+    // Every stored page links to the new URLs
+    if (result.migrated > 0) {
+      refreshAfterResponse(c, body.vault, await getLinkIndex(c.env, body.vault));
+    }
+
+    return c.json(result);
+  } catch (e) {
+    console.error('Rekey error:', e);
+    return c.json({ error: 'Failed to re-key vault' }, 500);
+  }
+});
+
+// Set a vault's HTML policy (extra/blocked tags, iframe hosts)
+app.put('/api/vault/html', async (c) => {
+  try {
+    const body = await c.req.json<HtmlPolicyRequest>();
+
+    if (!body.vault) {
+      return c.json({ error: 'Missing vault' }, 400);
+    }
+
+    // Loosening the sanitizer is an admin decision
+    if (!can(c.get('auth'), 'admin', body.vault)) {
+      return c.json(forbidden, 403);
+    }
+
+    const error = validateHtmlPolicy(body.policy);
+    if (error) {
+      return c.json({ error }, 400);
+    }
+
+    const config = await updateVaultConfig(c.env.NOTES, body.vault, { html: body.policy || undefined });
+    configCache.delete(body.vault);
+    refreshAfterResponse(c, body.vault, await getLinkIndex(c.env, body.vault));
+
+    return c.json({ success: true, policy: config.html ?? null });
+  } catch (e) {
+    console.error('HTML policy error:', e);
+    return c.json({ error: 'Failed to update HTML policy' }, 500);
+  }
+});
+
+// Set the origins allowed to embed a vault's shared pages (frame-ancestors)
+app.put('/api/vault/embedding', async (c) => {
+  try {
+    const body = await c.req.json<FrameAncestorsRequest>();
+
+    if (!body.vault) {
+      return c.json({ error: 'Missing vault' }, 400);
+    }
+
+    if (!can(c.get('auth'), 'admin', body.vault)) {
+      return c.json(forbidden, 403);
+    }
+
+    const error = validateFrameAncestors(body.origins);
+    if (error) {
+      return c.json({ error }, 400);
+    }
+
+    const config = await updateVaultConfig(c.env.NOTES, body.vault, {
+      frameAncestors: body.origins?.length ? body.origins : undefined,
+    });
+    configCache.delete(body.vault);
+
+    return c.json({ success: true, origins: config.frameAncestors ?? [] });
+  } catch (e) {
+    console.error('Embedding settings error:', e);
+    return c.json({ error: 'Failed to update embedding settings' }, 500);
+  }
+});
+
+// Publish (or update) a folder of shared notes as a collection
+app.put('/api/collections', async (c) => {
+  try {
+    const body = await c.req.json<CollectionRequest>();
+
+    if (!body.vault || !body.title || body.folder === undefined || !Array.isArray(body.notes)) {
+      return c.json({ error: 'Missing required fields' }, 400);
+    }
+
+    if (!can(c.get('auth'), 'share', body.vault)) {
+      return c.json(forbidden, 403);
+    }
+
+    const { hashSecret } = await getVaultConfig(c.env.NOTES, body.vault);
+    const slug = slugify(body.folder || body.title);
+    const hash = await collectionHash(body.vault, body.folder, hashSecret);
+    const existing = (await getCollectionIndex(c.env.NOTES, body.vault)).collections.find((col) => col.hash === hash);
+    const now = new Date().toISOString();
+
+    const collection: Collection = {
+      slug,
+      hash,
+      folder: body.folder,
+      title: body.title,
+      notes: await Promise.all(
+        body.notes.map(async (n) => ({
+          path: n.path,
+          titleSlug: slugify(n.title),
+          hash: await generateNoteHash(body.vault, n.title, hashSecret),
+          title: n.title,
+        }))
+      ),
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+
+    await putCollection(c.env.NOTES, body.vault, collection);
+    collectionCache.delete(body.vault);
+    // Pages in the folder (and ones that left it) show its navigation sidebar
+    refreshAfterResponse(c, body.vault, [...collection.notes, ...(existing?.notes || [])]);
+
+    const response: CollectionResponse = {
+      url: `${new URL(c.req.url).origin}/c/${body.vault}/${slug}/${hash}`,
+      slug,
+      hash,
+    };
+    return c.json(response);
+  } catch (e) {
+    console.error('Collection error:', e);
+    return c.json({ error: 'Failed to publish collection' }, 500);
+  }
+});
+
+// Stop publishing a collection (its notes stay shared)
+app.delete('/api/collections/:vault/:slug/:hash', async (c) => {
+  try {
+    const vault = c.req.param('vault');
+
+    if (!can(c.get('auth'), 'delete', vault)) {
+      return c.json(forbidden, 403);
+    }
+
+    const removed = await removeCollection(c.env.NOTES, vault, c.req.param('slug'), c.req.param('hash'));
+    if (!removed) {
+      return c.json({ error: 'Collection not found' }, 404);
+    }
+    collectionCache.delete(vault);
+    refreshAfterResponse(c, vault, removed.notes);
+
+    return c.json({ success: true });
+  } catch (e) {
+    console.error('Collection delete error:', e);
+    return c.json({ error: 'Failed to delete collection' }, 500);
+  }
+});
+
+// List a vault's notes, a page at a time
+// Query: vault, sort (created|updated|title|views), order (asc|desc), limit, cursor, prefix (title), tag
+// View counts are copied into the index by the scheduled job, so sorting by views lags by up to a day
 app.get('/api/notes', async (c) => {
   try {
     const vault = c.req.query('vault');
@@ -207,13 +578,17 @@ app.get('/api/notes', async (c) => {
       return c.json({ error: 'Missing vault parameter' }, 400);
     }
 
-    const indexObj = await c.env.NOTES.get(`${vault}/index.json`);
-    if (!indexObj) {
-      return c.json([]);
+    if (!canAccessVault(c.get('auth'), vault)) {
+      return c.json(forbidden, 403);
     }
 
-    const index: NoteIndex = await indexObj.json();
-    return c.json(index.notes);
+    const query = parseNoteQuery(c.req.query());
+    if (typeof query === 'string') {
+      return c.json({ error: query }, 400);
+    }
+
+    const response: NoteListResponse = await listIndex(c.env.NOTES, vault, query);
+    return c.json(response);
   } catch (e) {
     console.error('List error:', e);
     return c.json({ error: 'Failed to list notes' }, 500);
@@ -227,35 +602,170 @@ app.delete('/api/notes/:vault/:titleSlug/:hash', async (c) => {
     const titleSlug = c.req.param('titleSlug');
     const hash = c.req.param('hash');
 
-    // Delete the note (stored globally) and its stats
+    if (!can(c.get('auth'), 'delete', vault)) {
+      return c.json(forbidden, 403);
+    }
+
+    // Notes are stored globally - make sure this one exists in the vault before
+    // touching its stats, backlinks or cached pages
+    const note = await loadNote(c.env.NOTES, vault, titleSlug, hash);
+    if (!note) {
+      return c.json({ error: 'Note not found' }, 404);
+    }
+
+    // Delete the note (stored globally), its page, stats and revision history
     await Promise.all([
       c.env.NOTES.delete(`notes/${titleSlug}-${hash}.json`),
+      deleteRendered(c.env.NOTES, titleSlug, hash),
       c.env.NOTES.delete(`stats/${hash}.json`),
+      deleteDailyStats(c.env.NOTES, hash),
+      deleteRevisions(c.env.NOTES, titleSlug, hash),
     ]);
 
-    // Update index
+    // Update index and backlinks; linking and linked pages drop the note
     await removeFromIndex(c.env.NOTES, vault, titleSlug, hash);
-
-    return c.json({ success: true });
+    indexCache.delete(vault);
+    const linked = await removeBacklinks(c.env.NOTES, vault, hash);
+    backlinkCache.delete(vault);
+    purgeAfterResponse(c, vault, [{ titleSlug, hash }]);
+    refreshAfterResponse(c, vault, linked);
+
+    // The purge only reaches this data center
+    const response: NoteChangeResponse = { success: true, edgeCacheSeconds: EDGE_CACHE_TTL };
+    return c.json(response);
   } catch (e) {
     console.error('Delete error:', e);
     return c.json({ error: 'Failed to delete note' }, 500);
   }
 });
 
+// Set, change or remove a note's password
+app.put('/api/notes/:vault/:titleSlug/:hash/password', async (c) => {
+  try {
+    const vault = c.req.param('vault');
+    const titleSlug = c.req.param('titleSlug');
+    const hash = c.req.param('hash');
+    const body = await c.req.json<PasswordRequest>();
+
+    if (!can(c.get('auth'), 'share', vault)) {
+      return c.json(forbidden, 403);
+    }
+
+    const key = `notes/${titleSlug}-${hash}.json`;
+    const noteObj = await c.env.NOTES.get(key);
+    if (!noteObj) {
+      return c.json({ error: 'Note not found' }, 404);
+    }
+
+    const note: StoredNote = await noteObj.json();
+    if (note.vault !== vault) {
+      return c.json({ error: 'Note not found' }, 404);
+    }
+
+    note.password = await resolvePassword(body.password ?? null, note.password);
+    await c.env.NOTES.put(key, JSON.stringify(note));
+    await updateIndexEntry(c.env.NOTES, vault, titleSlug, hash, { protected: !!note.password });
+    indexCache.delete(vault);
+    await prerenderNote(c.env, note);
+    purgeAfterResponse(c, vault, [note]);
+    // Linked mentions leave out protected notes
+    const backlinks = await getBacklinkIndex(c.env.NOTES, vault);
+    refreshAfterResponse(c, vault, backlinks.sources[hash]?.links || []);
+
+    // The purge only reaches this data center
+    const response: NoteChangeResponse = { success: true, protected: !!note.password, edgeCacheSeconds: EDGE_CACHE_TTL };
+    return c.json(response);
+  } catch (e) {
+    console.error('Password update error:', e);
+    return c.json({ error: 'Failed to update password' }, 500);
+  }
+});
+
+// List revisions of a note (newest first, including the current one)
+app.get('/api/notes/:vault/:titleSlug/:hash/revisions', async (c) => {
+  try {
+    const vault = c.req.param('vault');
+
+    if (!can(c.get('auth'), 'share', vault)) {
+      return c.json(forbidden, 403);
+    }
+
+    const note = await loadNote(c.env.NOTES, vault, c.req.param('titleSlug'), c.req.param('hash'));
+    if (!note) {
+      return c.json({ error: 'Note not found' }, 404);
+    }
+
+    return c.json(await listRevisions(c.env.NOTES, note));
+  } catch (e) {
+    console.error('Revisions list error:', e);
+    return c.json({ error: 'Failed to list revisions' }, 500);
+  }
+});
+
+// Restore a previous revision (stored as a new revision, history is kept)
+app.post('/api/notes/:vault/:titleSlug/:hash/revisions/:revision/restore', async (c) => {
+  try {
+    const vault = c.req.param('vault');
+
+    if (!can(c.get('auth'), 'share', vault)) {
+      return c.json(forbidden, 403);
+    }
+
+    const note = await loadNote(c.env.NOTES, vault, c.req.param('titleSlug'), c.req.param('hash'));
+    if (!note) {
+      return c.json({ error: 'Note not found' }, 404);
+    }
+
+    const target = await getRevision(c.env.NOTES, note, parseInt(c.req.param('revision'), 10));
+    if (!target) {
+      return c.json({ error: 'Revision not found' }, 404);
+    }
+
+    // Tags, aliases, expiry and links follow the restored content, like a re-share
+    const { note: restored, options } = await restoreRevision(c.env.NOTES, note, target, maxRevisions(c.env));
+    await addToIndex(c.env.NOTES, vault, [indexEntry(restored, options)]);
+    indexCache.delete(vault);
+    const mentioned = await updateBacklinks(c.env.NOTES, vault, [restored], await getLinkIndex(c.env, vault));
+    backlinkCache.delete(vault);
+    await prerenderNote(c.env, restored);
+    purgeAfterResponse(c, vault, [restored]);
+    refreshAfterResponse(c, vault, mentioned.filter((n) => n.hash !== restored.hash));
+
+    return c.json({ success: true, revision: restored.revision });
+  } catch (e) {
+    console.error('Revision restore error:', e);
+    return c.json({ error: 'Failed to restore revision' }, 500);
+  }
+});
+
 // Upload an image for a note
 app.post('/api/images/:noteHash', async (c) => {
   try {
     const noteHash = c.req.param('noteHash');
+    const vault = c.req.query('vault');
     const contentType = c.req.header('Content-Type') || 'application/octet-stream';
     const filename = c.req.header('X-Filename') || 'image';
 
-    const body = await c.req.arrayBuffer();
+    // Vault-scoped keys must say which vault the image belongs to
+    const auth = c.get('auth');
+    if (vault ? !can(auth, 'share', vault) : (!can(auth, 'share') || auth.vaults !== '*')) {
+      return c.json(forbidden, 403);
+    }
 
     // Store image with note hash prefix for organization
     const key = `images/${noteHash}/${filename}`;
+
+    // Don't let one vault overwrite another vault's images
+    const existing = await c.env.NOTES.head(key);
+    const owner = existing?.customMetadata?.vault;
+    if (owner && owner !== vault && auth.vaults !== '*') {
+      return c.json(forbidden, 403);
+    }
+
+    const body = await c.req.arrayBuffer();
     await c.env.NOTES.put(key, body, {
       httpMetadata: { contentType },
+      customMetadata: vault ? { vault } : undefined,
     });
 
     const imageUrl = `${new URL(c.req.url).origin}/i/${noteHash}/${encodeURIComponent(filename)}`;
@@ -278,25 +788,38 @@ app.post('/api/track/:hash', async (c) => {
       return c.json({ ok: true, skipped: true });
     }
 
-    const view = {
+    const view: RecentView = {
       timestamp: new Date().toISOString(),
       device: parseDevice(ua),
       browser: parseBrowser(ua),
       country: c.req.header('CF-IPCountry') || 'unknown',
     };
 
-    const key = `stats/${hash}.json`;
-    let stats: { views: typeof view[]; total: number } = { views: [], total: 0 };
-    const existing = await c.env.NOTES.get(key);
-    if (existing) {
-      stats = await existing.json();
+    // Concurrent viewers retry instead of overwriting each other's counts
+    const statsKey = `stats/${hash}.json`;
+    const stats = await updateJson<ViewLog>(c.env.NOTES, statsKey, (stats = { views: [], total: 0 }) => ({
+      ...stats,
+      total: (stats.total || 0) + 1,
+      views: [view, ...stats.views].slice(0, 100),
+    }));
+
+    // The vault lets the scheduled job copy the count into the note list (sort by
+    // views). The beacon sends it unauthenticated, so it is recorded once, and only
+    // if the note is in that vault's index; pages rendered before the beacon sent
+    // it are counted but not sorted.
+    const vault = c.req.query('vault');
+    if (vault && !stats?.vault && (await isIndexed(c.env.NOTES, vault, hash))) {
+      await updateJson<ViewLog>(c.env.NOTES, statsKey, (current) => (current && !current.vault ? { ...current, vault } : undefined));
     }
 
-    stats.total = (stats.total || 0) + 1;
-    stats.views.unshift(view);
-    if (stats.views.length > 100) stats.views.length = 100;
-
-    await c.env.NOTES.put(key, JSON.stringify(stats));
+    // Daily rollup: the beacon sends the referring domain (pages rendered
+    // before it did send no body)
+    const body = await c.req.json<{ referrer?: unknown }>().catch(() => ({ referrer: undefined }));
+    const referrer = typeof body.referrer === 'string' ? body.referrer : undefined;
+    const visitor = await visitorHash(c.env.NOTES, c.req.header('CF-Connecting-IP') || '', ua, hash);
+    c.executionCtx.waitUntil(
+      recordView(c.env.NOTES, hash, visitor, referrer).catch((e) => console.error('Daily stats error:', e))
+    );
     return c.json({ ok: true });
   } catch (e) {
     console.error('Track error:', e);
@@ -304,13 +827,56 @@ app.post('/api/track/:hash', async (c) => {
   }
 });
 
+// Time on page and scroll depth, sent when the reader leaves (public - no auth required)
+app.post('/api/track/:hash/read', async (c) => {
+  try {
+    const ua = c.req.header('User-Agent') || '';
+    if (/bot|crawler|spider|preview|facebookexternalhit|slackbot|discordbot|twitterbot|whatsapp|linkedinbot/i.test(ua)) {
+      return c.json({ ok: true, skipped: true });
+    }
+
+    // sendBeacon posts text/plain
+    const report = parseReadReport(await c.req.text().then(JSON.parse).catch(() => undefined));
+    if (!report) {
+      return c.json({ ok: false, error: 'Invalid read report' }, 400);
+    }
+
+    await recordRead(c.env.NOTES, c.req.param('hash'), report);
+    return c.json({ ok: true });
+  } catch (e) {
+    console.error('Read tracking error:', e);
+    return c.json({ ok: false }, 500);
+  }
+});
+
 // Get stats for a note
+// Query: vault, from and to (YYYY-MM-DD, default the last 30 days), granularity (day|week|month)
 app.get('/api/stats/:hash', async (c) => {
   try {
     const hash = c.req.param('hash');
-    const obj = await c.env.NOTES.get(`stats/${hash}.json`);
-    if (!obj) return c.json({ views: [], total: 0 });
-    return c.json(await obj.json());
+    const vault = c.req.query('vault');
+
+    // Vault-scoped keys may only read stats of notes in their vaults
+    const auth = c.get('auth');
+    const allowed = vault
+      ? can(auth, 'stats', vault) && (auth.vaults === '*' || (await isIndexed(c.env.NOTES, vault, hash)))
+      : can(auth, 'stats') && auth.vaults === '*';
+    if (!allowed) {
+      return c.json(forbidden, 403);
+    }
+
+    const range = parseStatsRange(c.req.query());
+    if (typeof range === 'string') {
+      return c.json({ error: range }, 400);
+    }
+
+    const [obj, rollup] = await Promise.all([
+      c.env.NOTES.get(`stats/${hash}.json`),
+      queryStats(c.env.NOTES, hash, range),
+    ]);
+    const log: ViewLog = obj ? await obj.json<ViewLog>() : { views: [], total: 0 };
+    const stats: NoteStats = { total: log.total, views: log.views, ...rollup };
+    return c.json(stats);
   } catch (e) {
     console.error('Stats error:', e);
     return c.json({ error: 'Failed to fetch stats' }, 500);
@@ -348,8 +914,9 @@ app.get('/i/:noteHash/:filename', async (c) => {
       return c.text('Not found', 404);
     }
 
-    const headers = new Headers();
-    headers.set('Content-Type', obj.httpMetadata?.contentType || 'application/octet-stream');
+    const contentType = obj.httpMetadata?.contentType || 'application/octet-stream';
+    const headers = new Headers(uploadHeaders(contentType));
+    headers.set('Content-Type', contentType);
     headers.set('Cache-Control', `public, max-age=${IMAGE_CACHE_MAX_AGE}`);
 
     return new Response(obj.body, { headers });
@@ -367,28 +934,102 @@ app.get('/g/:vault/:titleSlug/:hash', async (c) => {
     const titleSlug = c.req.param('titleSlug');
     const hash = c.req.param('hash');
 
-    const noteObj = await c.env.NOTES.get(`notes/${titleSlug}-${hash}.json`);
-    if (!noteObj) {
-      return c.html(render404(), 404);
-    }
+    const config = await getRenderConfig(c.env, vault);
+    c.set('frameAncestors', config.frameAncestors);
+
+    // Public pages are cached in each data center; otherwise stream the page stored at share time
+    const url = pageUrl(new URL(c.req.url).origin, vault, titleSlug, hash);
+    let page = await getCachedPage(url);
+    const edgeCached = !!page;
+    page ??= await getRendered(c.env.NOTES, titleSlug, hash);
+
+    let note: StoredNote | undefined;
+    if (!page) {
+      const noteObj = await c.env.NOTES.get(`notes/${titleSlug}-${hash}.json`);
+      if (!noteObj) {
+        // Old URL of a re-keyed note (temporary redirect - the old hash may become valid again)
+        const redirect = await getRedirect(c.env.NOTES, vault, titleSlug, hash);
+        if (redirect) {
+          return c.redirect(`/g/${redirect.vault}/${redirect.titleSlug}/${redirect.hash}`, 302);
+        }
+        return c.html(render404(), 404);
+      }
 
-    const note: StoredNote = await noteObj.json();
+      note = await noteObj.json<StoredNote>();
+      if (note.vault !== vault || isExpired(note)) {
+        return c.html(render404(), 404);
+      }
+
+      // Shared before pages were pre-rendered: render and store it now
+      page = await prerenderNote(c.env, note);
+    }
+    const { meta } = page;
 
     // Verify vault matches (security check)
-    if (note.vault !== vault) {
+    if (meta.vault !== vault) {
+      return c.html(render404(), 404);
+    }
+
+    // Past its share-expires date or retention period (the scheduled cleanup deletes it)
+    if (meta.expiresAt && new Date() > new Date(meta.expiresAt)) {
       return c.html(render404(), 404);
     }
 
-    // Get dual theme from cache or R2
+    // Rendered by an older renderer or before a theme sync: serve it once more, rebuild it in the background
     const theme = await getTheme(c.env, vault);
+    const stale = isStale(meta, theme);
+    if (stale) {
+      refreshAfterResponse(c, vault, [{ titleSlug, hash }]);
+    }
 
-    const baseUrl = `${new URL(c.req.url).origin}/g/${vault}`;
+    const nonce = c.get('nonce');
+
+    // Password-protected notes need a valid unlock cookie and must never be stored by shared caches
+    if (meta.protected) {
+      note ??= await loadNote(c.env.NOTES, vault, titleSlug, hash);
+      if (!note) {
+        return c.html(render404(), 404);
+      }
+      if (!(await isUnlocked(c, note))) {
+        return new Response(renderUnlockPage(note, theme), {
+          status: 401,
+          headers: {
+            'Content-Type': 'text/html; charset=utf-8',
+            'Cache-Control': 'private, no-store',
+          },
+        });
+      }
+      return withNonce(page.body, nonce, {
+        headers: {
+          'Content-Type': 'text/html; charset=utf-8',
+          'Cache-Control': 'private, no-store',
+        },
+      });
+    }
 
-    // Return with aggressive caching - notes are immutable by hash
-    return new Response(renderNote(note, theme, baseUrl), {
+    // Same URL across re-shares: revalidate with the render stamp
+    const validators = pageValidators(meta);
+    if (isNotModified(c.req.raw.headers, validators)) {
+      return new Response(null, {
+        status: 304,
+        headers: { 'Cache-Control': PAGE_CACHE_CONTROL, ...validatorHeaders(validators) },
+      });
+    }
+
+    let body = page.body;
+    if (!edgeCached && !stale) {
+      let cacheBody = body;
+      if (typeof body !== 'string') {
+        [body, cacheBody] = body.tee();
+      }
+      c.executionCtx.waitUntil(putCachedPage(url, { body: cacheBody, meta }));
+    }
+
+    return withNonce(body, nonce, {
       headers: {
         'Content-Type': 'text/html; charset=utf-8',
-        'Cache-Control': 'public, max-age=86400, immutable',
+        'Cache-Control': PAGE_CACHE_CONTROL,
+        ...validatorHeaders(validators),
       },
     });
   } catch (e) {
@@ -397,46 +1038,274 @@ app.get('/g/:vault/:titleSlug/:hash', async (c) => {
   }
 });
 
-// Helper: Batch add multiple notes to index (single R2 read/write)
-async function batchAddToIndex(
-  bucket: R2Bucket,
-  vault: string,
-  notes: { titleSlug: string; hash: string; title: string; createdAt: string }[]
-): Promise<void> {
+// Collection landing page: the shared folder's tree (public - no auth required)
+app.get('/c/:vault/:slug/:hash', async (c) => {
+  try {
+    const vault = c.req.param('vault');
+    const slug = c.req.param('slug');
+    const hash = c.req.param('hash');
+
+    const collections = await getCollections(c.env, vault);
+    const collection = collections.collections.find((col) => col.slug === slug && col.hash === hash);
+    if (!collection) {
+      return c.html(render404(), 404);
+    }
+
+    const [theme, config, index] = await Promise.all([
+      getTheme(c.env, vault),
+      getRenderConfig(c.env, vault),
+      getLinkIndex(c.env, vault),
+    ]);
+    c.set('frameAncestors', config.frameAncestors);
+
+    const baseUrl = `${new URL(c.req.url).origin}/g/${vault}`;
+    return new Response(renderCollectionPage(liveCollection(collection, index), theme, baseUrl), {
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        // Short TTL - the folder changes as notes are added and removed
+        'Cache-Control': 'public, max-age=300',
+      },
+    });
+  } catch (e) {
+    console.error('Collection view error:', e);
+    return c.html(render404(), 500);
+  }
+});
+
+// View a previous revision (public - no auth required)
+app.get('/g/:vault/:titleSlug/:hash/rev/:revision', async (c) => {
+  try {
+    const vault = c.req.param('vault');
+    const note = await loadNote(c.env.NOTES, vault, c.req.param('titleSlug'), c.req.param('hash'));
+    if (!note) {
+      return c.html(render404(), 404);
+    }
+
+    if (!(await isUnlocked(c, note))) {
+      return c.redirect(`/g/${vault}/${note.titleSlug}/${note.hash}`, 303);
+    }
+    const [theme, config] = await Promise.all([getTheme(c.env, vault), getRenderConfig(c.env, vault)]);
+    c.set('frameAncestors', config.frameAncestors);
+
+    const revision = parseInt(c.req.param('revision'), 10);
+    const [target, index] = await Promise.all([
+      getRevision(c.env.NOTES, note, revision),
+      getLinkIndex(c.env, vault),
+    ]);
+    if (!target) {
+      return c.html(render404(), 404);
+    }
+
+    const baseUrl = `${new URL(c.req.url).origin}/g/${vault}`;
+    const render = target.kind === 'canvas' ? renderCanvas : renderNote;
+    const html = render(target, theme, baseUrl, {
+      revision: { number: revision, latest: note.revision || 1 },
+      html: config.html,
+      nonce: c.get('nonce'),
+      index,
+    });
+
+    // Revision numbers only grow, so an archived revision never changes
+    return new Response(html, {
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Cache-Control': note.password ? 'private, no-store' : 'public, max-age=3600',
+      },
+    });
+  } catch (e) {
+    console.error('Revision view error:', e);
+    return c.html(render404(), 500);
+  }
+});
+
+// Diff between two revisions (public - no auth required)
+app.get('/g/:vault/:titleSlug/:hash/diff/:from/:to', async (c) => {
+  try {
+    const vault = c.req.param('vault');
+    const note = await loadNote(c.env.NOTES, vault, c.req.param('titleSlug'), c.req.param('hash'));
+    if (!note) {
+      return c.html(render404(), 404);
+    }
+
+    if (!(await isUnlocked(c, note))) {
+      return c.redirect(`/g/${vault}/${note.titleSlug}/${note.hash}`, 303);
+    }
+    const [theme, config] = await Promise.all([getTheme(c.env, vault), getRenderConfig(c.env, vault)]);
+    c.set('frameAncestors', config.frameAncestors);
+
+    const from = parseInt(c.req.param('from'), 10);
+    const to = parseInt(c.req.param('to'), 10);
+    const [before, after] = await Promise.all([
+      getRevision(c.env.NOTES, note, from),
+      getRevision(c.env.NOTES, note, to),
+    ]);
+    if (!before || !after) {
+      return c.html(render404(), 404);
+    }
+
+    const html = renderDiffPage(note, theme, from, to, diffLines(before.content, after.content));
+    return new Response(html, {
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Cache-Control': note.password ? 'private, no-store' : 'public, max-age=3600',
+      },
+    });
+  } catch (e) {
+    console.error('Diff view error:', e);
+    return c.html(render404(), 500);
+  }
+});
+
+// Unlock a password-protected note (public - no auth required)
+app.post('/g/:vault/:titleSlug/:hash', async (c) => {
+  try {
+    const vault = c.req.param('vault');
+    const titleSlug = c.req.param('titleSlug');
+    const hash = c.req.param('hash');
+
+    const noteObj = await c.env.NOTES.get(`notes/${titleSlug}-${hash}.json`);
+    if (!noteObj) {
+      return c.html(render404(), 404);
+    }
+
+    const note: StoredNote = await noteObj.json();
+    if (note.vault !== vault) {
+      return c.html(render404(), 404);
+    }
+
+    const notePath = `/g/${vault}/${titleSlug}/${hash}`;
+    if (!note.password) {
+      return c.redirect(notePath, 303);
+    }
+
+    const form = await c.req.parseBody();
+    const password = typeof form.password === 'string' ? form.password : '';
+
+    if (!password || !(await verifyPassword(password, note.password))) {
+      const [theme, config] = await Promise.all([getTheme(c.env, vault), getRenderConfig(c.env, vault)]);
+      c.set('frameAncestors', config.frameAncestors);
+      return new Response(renderUnlockPage(note, theme, 'Incorrect password'), {
+        status: 401,
+        headers: {
+          'Content-Type': 'text/html; charset=utf-8',
+          'Cache-Control': 'private, no-store',
+        },
+      });
+    }
+
+    await setUnlockCookie(c, note);
+    return c.redirect(notePath, 303);
+  } catch (e) {
+    console.error('Unlock error:', e);
+    return c.html(render404(), 500);
+  }
+});
+
+// Helper: Map the titles a shared note links to onto the notes stored in the same request
+function resolveRequestLinks(
+  titles: string[] | undefined,
+  byTitle: Map<string, { titleSlug: string; hash: string }>
+): { titleSlug: string; hash: string }[] {
+  const links = (titles || []).map((title) => byTitle.get(title));
+  return links.filter((link): link is { titleSlug: string; hash: string } => link !== undefined);
+}
+
+// Helper: Purge re-rendered pages from the edge cache once the response is sent
+function purgeAfterResponse(c: Context<AppEnv>, vault: string, notes: { titleSlug: string; hash: string }[]): void {
+  const origin = new URL(c.req.url).origin;
+  const urls = notes.map((n) => pageUrl(origin, vault, n.titleSlug, n.hash));
+  c.executionCtx.waitUntil(purgePages(urls).catch((e) => console.error('Cache purge error:', e)));
+}
+
+// Helper: Re-render stored pages once the response is sent, then purge their edge copies
+function refreshAfterResponse(c: Context<AppEnv>, vault: string, notes: { titleSlug: string; hash: string }[]): void {
   if (notes.length === 0) return;
+  const origin = new URL(c.req.url).origin;
+  const urls = notes.map((n) => pageUrl(origin, vault, n.titleSlug, n.hash));
+  c.executionCtx.waitUntil(
+    rerenderNotes(c.env, vault, notes)
+      .then(() => purgePages(urls))
+      .catch((e) => console.error('Re-render error:', e))
+  );
+}
 
-  let index: NoteIndex = { notes: [] };
-  const indexObj = await bucket.get(`${vault}/index.json`);
-  if (indexObj) {
-    index = await indexObj.json();
+// Helper: Re-render notes one at a time (notes deleted in the meantime are skipped)
+async function rerenderNotes(env: Env, vault: string, notes: { titleSlug: string; hash: string }[]): Promise<void> {
+  const seen = new Set<string>();
+  for (const { titleSlug, hash } of notes) {
+    if (seen.has(hash)) continue;
+    seen.add(hash);
+    const note = await loadNote(env.NOTES, vault, titleSlug, hash);
+    if (note) await prerenderNote(env, note);
   }
+}
 
-  // Build set of keys to remove (for updates)
-  const keysToRemove = new Set(notes.map(n => `${n.titleSlug}:${n.hash}`));
-  index.notes = index.notes.filter(n => !keysToRemove.has(`${n.titleSlug}:${n.hash}`));
+// Helper: Render a note's page and store it for the view route. Links are
+// root-relative and scripts carry a placeholder nonce, swapped when served.
+async function prerenderNote(env: Env, note: StoredNote): Promise<RenderedPage> {
+  const [theme, config, index, backlinks, collections] = await Promise.all([
+    getTheme(env, note.vault),
+    getRenderConfig(env, note.vault),
+    getLinkIndex(env, note.vault),
+    getBacklinks(env, note.vault),
+    getCollections(env, note.vault),
+  ]);
+  const render = note.kind === 'canvas' ? renderCanvas : renderNote;
+  const collection = findCollection(collections, note.hash);
+  const html = render(note, theme, `/g/${note.vault}`, {
+    html: config.html,
+    nonce: PRERENDER_NONCE,
+    index,
+    mentions: linkedMentions(backlinks, note.hash, index),
+    collection: collection && liveCollection(collection, index),
+  });
+  return putRendered(env.NOTES, note, theme, noteExpiry(note), html);
+}
+
+// Helper: When a note stops being served - share-expires date or end of its retention period
+function noteExpiry(note: StoredNote): Date | undefined {
+  const expiresAt = note.expiresAt ? new Date(note.expiresAt) : undefined;
+
+  // No retention set (0 = never delete)
+  if (!note.retentionDays || note.retentionDays <= 0) return expiresAt;
 
-  // Add all new entries at the beginning
-  index.notes.unshift(...notes);
+  const retainedUntil = new Date(note.updatedAt || note.createdAt);
+  retainedUntil.setDate(retainedUntil.getDate() + note.retentionDays);
+  return expiresAt && expiresAt < retainedUntil ? expiresAt : retainedUntil;
+}
+
+// Helper: Check a note's share-expires date and retention period
+function isExpired(note: StoredNote, now = new Date()): boolean {
+  const expiry = noteExpiry(note);
+  return !!expiry && now > expiry;
+}
 
-  await bucket.put(`${vault}/index.json`, JSON.stringify(index));
+// Helper: A shared note's index entry (addToIndex keeps its view count)
+function indexEntry(note: StoredNote, options: ShareOptions): IndexEntry {
+  return {
+    titleSlug: note.titleSlug,
+    hash: note.hash,
+    title: note.title,
+    createdAt: note.createdAt,
+    updatedAt: note.updatedAt,
+    protected: !!note.password,
+    tags: options.tags.length ? options.tags : undefined,
+    aliases: options.aliases.length ? options.aliases : undefined,
+  };
 }
 
-// Helper: Remove from index
-async function removeFromIndex(
+// Helper: Load a note, checking it belongs to the vault (notes are stored globally)
+async function loadNote(
   bucket: R2Bucket,
   vault: string,
   titleSlug: string,
   hash: string
-): Promise<void> {
-  const indexObj = await bucket.get(`${vault}/index.json`);
-  if (!indexObj) return;
+): Promise<StoredNote | undefined> {
+  const noteObj = await bucket.get(`notes/${titleSlug}-${hash}.json`);
+  if (!noteObj) return undefined;
 
-  const index: NoteIndex = await indexObj.json();
-  index.notes = index.notes.filter(
-    (n) => !(n.titleSlug === titleSlug && n.hash === hash)
-  );
-
-  await bucket.put(`${vault}/index.json`, JSON.stringify(index));
+  const note: StoredNote = await noteObj.json();
+  return note.vault === vault ? note : undefined;
 }
 
 // 404 page
@@ -497,21 +1366,18 @@ async function cleanupExpiredNotes(env: Env): Promise<number> {
 
       const note: StoredNote = await noteObj.json();
 
-      // Skip if no retention set (0 = never delete)
-      if (!note.retentionDays || note.retentionDays <= 0) continue;
-
-      const noteDate = new Date(note.updatedAt || note.createdAt);
-      const expiryDate = new Date(noteDate);
-      expiryDate.setDate(expiryDate.getDate() + note.retentionDays);
-
-      if (now > expiryDate) {
+      if (isExpired(note, now)) {
         // Delete note and associated images in parallel
         const imagesList = await env.NOTES.list({ prefix: `images/${note.hash}/` });
         await Promise.all([
           env.NOTES.delete(object.key),
+          deleteRendered(env.NOTES, note.titleSlug, note.hash),
           env.NOTES.delete(`stats/${note.hash}.json`),
+          deleteDailyStats(env.NOTES, note.hash),
+          deleteRevisions(env.NOTES, note.titleSlug, note.hash),
           ...imagesList.objects.map(img => env.NOTES.delete(img.key)),
           removeFromIndex(env.NOTES, note.vault, note.titleSlug, note.hash),
+          removeBacklinks(env.NOTES, note.vault, note.hash),
         ]);
 
         console.log(`Deleted expired note: ${note.title} (${note.hash})`);
@@ -532,5 +1398,21 @@ export default {
     console.log('Running auto-delete cleanup...');
     const deleted = await cleanupExpiredNotes(env);
     console.log(`Cleanup complete. Deleted ${deleted} notes.`);
+
+    const redirects = await cleanupExpiredRedirects(env.NOTES);
+    if (redirects > 0) console.log(`Deleted ${redirects} expired redirects.`);
+    await cleanupVisitorSalts(env.NOTES);
+
+    // View counts into the note lists
+    const synced = await syncIndexViews(env.NOTES, new Date(Date.now() - VIEW_SYNC_WINDOW));
+    if (synced > 0) console.log(`Synced view counts of ${synced} notes.`);
+
+    // Pages left behind by a renderer upgrade or a theme sync
+    const rerendered = await rerenderStalePages(
+      env.NOTES,
+      (vault) => getTheme(env, vault),
+      (note) => prerenderNote(env, note)
+    );
+    if (rerendered > 0) console.log(`Re-rendered ${rerendered} stale pages.`);
   },
 };
@@ -0,0 +1,76 @@
+import { slugify } from '@obsidian-note-share/shared';
+import { NoteIndex } from './types';
+
+export interface LinkTarget {
+  titleSlug: string;
+  hash: string;
+}
+
+export type LinkResolver = (target: string) => LinkTarget | undefined;
+
+/**
+ * Split a wikilink target into note name and subpath:
+ * [[folder/Note.md#Heading]] -> "Note", "Heading"; [[#^block]] -> "", "^block"
+ */
+export function parseLinkTarget(target: string): { name: string; subpath?: string } {
+  const hashIndex = target.indexOf('#');
+  const path = (hashIndex === -1 ? target : target.slice(0, hashIndex)).trim();
+  const subpath = hashIndex === -1 ? '' : target.slice(hashIndex + 1).trim();
+  return {
+    name: path.slice(path.lastIndexOf('/') + 1).replace(/\.md$/i, ''),
+    subpath: subpath || undefined,
+  };
+}
+
+/**
+ * Stable id for a heading - the same id [[Note#Heading]] links point at
+ */
+export function headingId(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .trim()
+    .replace(/\s+/g, '-');
+}
+
+/**
+ * URL fragment for a link subpath. Block refs keep their ^id; nested
+ * heading paths (Heading#Subheading) point at the last heading.
+ */
+export function linkFragment(subpath: string): string {
+  if (subpath.startsWith('^')) return subpath;
+  const headings = subpath.split('#').filter((h) => h.trim());
+  return headingId(headings[headings.length - 1] || '');
+}
+
+/**
+ * Resolve wikilink targets to shared notes. The note's own linked notes win,
+ * then any note in the vault index by title, alias and finally slug.
+ */
+export function createLinkResolver(linkedNotes: LinkTarget[], index: NoteIndex['notes'] = []): LinkResolver {
+  const linked = new Map(linkedNotes.map((n) => [n.titleSlug, n]));
+  const byTitle = new Map<string, LinkTarget>();
+  const byAlias = new Map<string, LinkTarget>();
+  const bySlug = new Map<string, LinkTarget>();
+
+  // Index is newest first - keep the first match for each key
+  for (const entry of index) {
+    const target = { titleSlug: entry.titleSlug, hash: entry.hash };
+    const title = entry.title.toLowerCase();
+    if (!byTitle.has(title)) byTitle.set(title, target);
+    for (const alias of entry.aliases || []) {
+      const key = alias.toLowerCase();
+      if (!byAlias.has(key)) byAlias.set(key, target);
+    }
+    if (!bySlug.has(entry.titleSlug)) bySlug.set(entry.titleSlug, target);
+  }
+
+  return (target) => {
+    const { name } = parseLinkTarget(target);
+    if (!name) return undefined;
+
+    const key = name.toLowerCase();
+    const slug = slugify(name);
+    return linked.get(slug) || byTitle.get(key) || byAlias.get(key) || bySlug.get(slug);
+  };
+}
@@ -0,0 +1,76 @@
+import katex from 'katex';
+
+// Stylesheet (and the fonts next to it) matching the bundled KaTeX version
+export const KATEX_CDN_PATH = `https://cdn.jsdelivr.net/npm/katex@${katex.version}/dist/`;
+export const KATEX_CSS_URL = `${KATEX_CDN_PATH}katex.min.css`;
+
+// Code is matched first so math inside it is left alone:
+// fenced code | inline code | $$display$$ | $inline$
+// Inline math must not start or end with whitespace, and a closing $ followed
+// by a digit is treated as currency ("$5 and $10") rather than math.
+const MATH_OR_CODE_REGEX =
+  /^(`{3,}|~{3,})[^\n]*\n[\s\S]*?^\1[ \t]*$|(`+)[^`\n]+?\2|\$\$([\s\S]+?)\$\$|(?<!\\)\$(?=[^\s$])([^$\n]*?[^\s\\$])\$(?!\d)/gm;
+const PLACEHOLDER_REGEX = /@@MATH(\d+)@@/g;
+const BLOCK_PLACEHOLDER_REGEX = /<p>@@MATH(\d+)@@<\/p>/g;
+
+interface MathSpan {
+  tex: string;
+  display: boolean;
+}
+
+export interface ExtractedMath {
+  content: string;
+  spans: MathSpan[];
+}
+
+/**
+ * Swap math spans for placeholders so later markdown passes (highlights, tags,
+ * emphasis) can't touch their contents. Code blocks and spans are skipped.
+ */
+export function extractMath(content: string): ExtractedMath {
+  const spans: MathSpan[] = [];
+  if (!content.includes('$')) return { content, spans };
+
+  MATH_OR_CODE_REGEX.lastIndex = 0;
+  const replaced = content.replace(MATH_OR_CODE_REGEX, (match, fence, tick, display, inline) => {
+    if (fence || tick) return match;
+
+    const isDisplay = display !== undefined;
+    spans.push({ tex: (isDisplay ? display : inline).trim(), display: isDisplay });
+    return `@@MATH${spans.length - 1}@@`;
+  });
+
+  return { content: replaced, spans };
+}
+
+/**
+ * Replace placeholders in rendered HTML with KaTeX output (HTML + MathML)
+ */
+export function restoreMath(html: string, spans: MathSpan[]): string {
+  if (spans.length === 0) return html;
+
+  const render = (index: string) => {
+    const span = spans[Number(index)];
+    if (!span) return '';
+    // Invalid TeX renders as the source in an error colour instead of throwing
+    return katex.renderToString(span.tex, {
+      displayMode: span.display,
+      throwOnError: false,
+      output: 'htmlAndMathml',
+    });
+  };
+
+  BLOCK_PLACEHOLDER_REGEX.lastIndex = 0;
+  PLACEHOLDER_REGEX.lastIndex = 0;
+  return html
+    .replace(BLOCK_PLACEHOLDER_REGEX, (_, index) => render(index))
+    .replace(PLACEHOLDER_REGEX, (_, index) => render(index));
+}
+
+/**
+ * Remove placeholders (used when deriving plain-text descriptions)
+ */
+export function stripMathPlaceholders(text: string): string {
+  PLACEHOLDER_REGEX.lastIndex = 0;
+  return text.replace(PLACEHOLDER_REGEX, '');
+}
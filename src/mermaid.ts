@@ -0,0 +1,82 @@
+// Mermaid needs a DOM, so diagrams are rendered in the browser.
+// The fence source is served as a normal code block and stays visible if the
+// script fails to load or the diagram doesn't parse.
+// The module loads its chunks relative to itself, so everything stays under this path
+export const MERMAID_CDN_PATH = 'https://cdn.jsdelivr.net/npm/mermaid@11/';
+const MERMAID_URL = `${MERMAID_CDN_PATH}dist/mermaid.esm.min.mjs`;
+
+export const MERMAID_CLASS = 'mermaid-diagram';
+
+/**
+ * Markup for a ```mermaid fence (source must already be HTML-escaped)
+ */
+export function mermaidBlock(escapedSource: string): string {
+  return `<div class="${MERMAID_CLASS}"><pre><code class="language-mermaid">${escapedSource}</code></pre></div>\n`;
+}
+
+/**
+ * Client-side renderer. Maps the page's theme variables (generateThemeVars) onto
+ * mermaid's base theme and re-renders when the light/dark mode changes.
+ */
+export function mermaidScript(nonceAttr: string): string {
+  return `<script type="module"${nonceAttr}>
+    import mermaid from '${MERMAID_URL}';
+
+    const root = document.documentElement;
+    const diagrams = [...document.querySelectorAll('.${MERMAID_CLASS}')];
+    diagrams.forEach(d => { d.dataset.source = d.textContent; });
+
+    const isDark = () => root.classList.contains('force-dark') ||
+      (!root.classList.contains('force-light') && !window.matchMedia('(prefers-color-scheme: light)').matches);
+
+    function themeVariables() {
+      const style = getComputedStyle(root);
+      const v = name => style.getPropertyValue(name).trim();
+      return {
+        darkMode: isDark(),
+        fontFamily: v('--font-text'),
+        background: v('--background-primary'),
+        primaryColor: v('--background-secondary'),
+        primaryTextColor: v('--text-normal'),
+        primaryBorderColor: v('--interactive-accent'),
+        secondaryColor: v('--code-background'),
+        tertiaryColor: v('--background-primary'),
+        lineColor: v('--text-muted'),
+        textColor: v('--text-normal'),
+      };
+    }
+
+    function showSource(d) {
+      const pre = document.createElement('pre');
+      const code = document.createElement('code');
+      code.className = 'language-mermaid';
+      code.textContent = d.dataset.source;
+      pre.append(code);
+      d.replaceChildren(pre);
+      d.classList.add('mermaid-error');
+    }
+
+    let count = 0;
+    async function renderAll() {
+      mermaid.initialize({ startOnLoad: false, securityLevel: 'strict', theme: 'base', themeVariables: themeVariables() });
+      for (const d of diagrams) {
+        try {
+          if (!(await mermaid.parse(d.dataset.source, { suppressErrors: true }))) {
+            showSource(d);
+            continue;
+          }
+          const { svg } = await mermaid.render('mermaid-' + count++, d.dataset.source);
+          d.innerHTML = svg;
+          d.classList.remove('mermaid-error');
+        } catch (e) {
+          showSource(d);
+        }
+      }
+    }
+
+    renderAll();
+    // The toggle's own handler runs first, so the new theme is already applied
+    document.getElementById('theme-toggle').addEventListener('click', renderAll);
+    window.matchMedia('(prefers-color-scheme: dark)').addEventListener('change', renderAll);
+  </script>`;
+}
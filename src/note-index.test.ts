@@ -0,0 +1,320 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  IndexEntry,
+  MAX_PAGE_SIZE,
+  SHARD_SIZE,
+  NoteQuery,
+  addToIndex,
+  isIndexed,
+  listIndex,
+  parseNoteQuery,
+  queryIndex,
+  readIndex,
+  remapIndex,
+  removeFromIndex,
+  setIndexViews,
+} from './note-index';
+
+/**
+ * In-memory bucket with the calls and etag preconditions the index relies on.
+ * `reads` counts gets per key.
+ */
+class FakeBucket {
+  objects = new Map<string, { body: string; etag: string; customMetadata?: Record<string, string> }>();
+  reads = new Map<string, number>();
+  private version = 0;
+
+  async get(key: string) {
+    this.reads.set(key, (this.reads.get(key) || 0) + 1);
+    const object = this.objects.get(key);
+    if (!object) return null;
+    return { etag: object.etag, json: async () => JSON.parse(object.body) };
+  }
+
+  async head(key: string) {
+    const object = this.objects.get(key);
+    return object ? { etag: object.etag, customMetadata: object.customMetadata } : null;
+  }
+
+  async put(
+    key: string,
+    body: string,
+    options?: { onlyIf?: { etagMatches?: string; etagDoesNotMatch?: string }; customMetadata?: Record<string, string> }
+  ) {
+    const current = this.objects.get(key);
+    const onlyIf = options?.onlyIf;
+    if (onlyIf?.etagMatches !== undefined && current?.etag !== onlyIf.etagMatches) return null;
+    if (onlyIf?.etagDoesNotMatch === '*' && current) return null;
+
+    this.objects.set(key, { body, etag: `etag-${++this.version}`, customMetadata: options?.customMetadata });
+    return {};
+  }
+
+  async delete(key: string) {
+    this.objects.delete(key);
+  }
+
+  read(key: string): unknown {
+    const object = this.objects.get(key);
+    return object && JSON.parse(object.body);
+  }
+
+  asBucket(): R2Bucket {
+    return this as unknown as R2Bucket;
+  }
+}
+
+function entry(n: number, fields: Partial<IndexEntry> = {}): IndexEntry {
+  const hash = n.toString(16).padStart(16, '0');
+  return {
+    titleSlug: `note-${n}`,
+    hash,
+    title: `Note ${n}`,
+    createdAt: new Date(Date.UTC(2024, 0, 1) + n * 60_000).toISOString(),
+    ...fields,
+  };
+}
+
+function query(params: Record<string, string> = {}): NoteQuery {
+  const parsed = parseNoteQuery(params);
+  if (typeof parsed === 'string') throw new Error(parsed);
+  return parsed;
+}
+
+// Every page of a listing, following the cursors
+function allPages(entries: IndexEntry[], params: Record<string, string>): string[][] {
+  const pages: string[][] = [];
+  let cursor: string | undefined;
+  do {
+    const page = queryIndex(entries, query({ ...params, ...(cursor ? { cursor } : {}) }));
+    pages.push(page.notes.map((n) => n.title));
+    cursor = page.cursor;
+  } while (cursor);
+  return pages;
+}
+
+let vaultId = 0;
+
+// Migration is remembered per vault, so every test gets its own
+function newVault(): string {
+  return `vault-${++vaultId}`;
+}
+
+beforeEach(() => {
+  // No backoff between attempts
+  vi.spyOn(Math, 'random').mockReturnValue(0);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('parseNoteQuery', () => {
+  it('defaults to the newest notes first, titles A to Z', () => {
+    expect(parseNoteQuery({})).toEqual({ sort: 'created', order: 'desc', limit: 50, cursor: undefined, prefix: undefined, tag: undefined });
+    expect(parseNoteQuery({ sort: 'title' })).toMatchObject({ sort: 'title', order: 'asc' });
+    expect(parseNoteQuery({ sort: 'views', order: 'asc', prefix: 'Pro', tag: 'work' })).toMatchObject({
+      sort: 'views',
+      order: 'asc',
+      prefix: 'Pro',
+      tag: 'work',
+    });
+  });
+
+  it('caps the page size', () => {
+    expect(parseNoteQuery({ limit: '10' })).toMatchObject({ limit: 10 });
+    expect(parseNoteQuery({ limit: '5000' })).toMatchObject({ limit: MAX_PAGE_SIZE });
+  });
+
+  it('rejects invalid parameters', () => {
+    expect(parseNoteQuery({ sort: 'size' })).toBe('sort must be created, updated, title or views');
+    expect(parseNoteQuery({ order: 'up' })).toBe('order must be asc or desc');
+    for (const limit of ['0', '-1', '1.5', 'ten']) {
+      expect(parseNoteQuery({ limit })).toBe('limit must be a positive integer');
+    }
+    for (const cursor of ['not base64!', btoa('{"a":1}'), btoa('[1]'), btoa('[1,2]')]) {
+      expect(parseNoteQuery({ cursor })).toBe('Invalid cursor');
+    }
+  });
+});
+
+describe('queryIndex', () => {
+  const notes = [
+    entry(1, { title: 'beta', tags: ['work'], views: 5, updatedAt: '2024-03-01T00:00:00.000Z' }),
+    entry(2, { title: 'Alpha', tags: ['work/project'], views: 12 }),
+    entry(3, { title: 'Gamma', tags: ['home'], updatedAt: '2024-02-01T00:00:00.000Z' }),
+    entry(4, { title: 'alphabet', views: 5 }),
+  ];
+  const titles = (params: Record<string, string>) => queryIndex(notes, query(params)).notes.map((n) => n.title);
+
+  it('sorts by each order, ties broken by hash', () => {
+    expect(titles({})).toEqual(['alphabet', 'Gamma', 'Alpha', 'beta']);
+    expect(titles({ order: 'asc' })).toEqual(['beta', 'Alpha', 'Gamma', 'alphabet']);
+    // Notes never re-shared sort by their creation date
+    expect(titles({ sort: 'updated' })).toEqual(['beta', 'Gamma', 'alphabet', 'Alpha']);
+    expect(titles({ sort: 'title' })).toEqual(['Alpha', 'alphabet', 'beta', 'Gamma']);
+    expect(titles({ sort: 'views' })).toEqual(['Alpha', 'alphabet', 'beta', 'Gamma']);
+    expect(titles({ sort: 'views', order: 'asc' })).toEqual(['Gamma', 'beta', 'alphabet', 'Alpha']);
+  });
+
+  it('filters by title prefix and tag, including nested tags', () => {
+    expect(titles({ sort: 'title', prefix: 'ALPHA' })).toEqual(['Alpha', 'alphabet']);
+    expect(titles({ sort: 'title', tag: 'work' })).toEqual(['Alpha', 'beta']);
+    expect(titles({ sort: 'title', tag: '#Work/Project' })).toEqual(['Alpha']);
+    expect(titles({ tag: 'wor' })).toEqual([]);
+  });
+
+  it('pages through every note once, in order', () => {
+    const many = Array.from({ length: 23 }, (_, i) => entry(i, { views: i % 4 }));
+
+    for (const sort of ['created', 'updated', 'title', 'views']) {
+      for (const order of ['asc', 'desc']) {
+        const pages = allPages(many, { sort, order, limit: '5' });
+        expect(pages.map((p) => p.length)).toEqual([5, 5, 5, 5, 3]);
+        expect(pages.flat()).toEqual(queryIndex(many, query({ sort, order, limit: '200' })).notes.map((n) => n.title));
+      }
+    }
+  });
+
+  it('continues after the cursor when notes change between pages', () => {
+    const many = Array.from({ length: 10 }, (_, i) => entry(i));
+    const first = queryIndex(many, query({ limit: '4' }));
+    expect(first.notes.map((n) => n.title)).toEqual(['Note 9', 'Note 8', 'Note 7', 'Note 6']);
+
+    // A new note and a deleted one on the first page don't shift the next page
+    const changed = [...many.filter((n) => n.title !== 'Note 8'), entry(20)];
+    const second = queryIndex(changed, query({ limit: '4', cursor: first.cursor! }));
+    expect(second.notes.map((n) => n.title)).toEqual(['Note 5', 'Note 4', 'Note 3', 'Note 2']);
+  });
+
+  it('has no cursor on the last page', () => {
+    expect(queryIndex(notes, query({ limit: '4' })).cursor).toBeUndefined();
+    expect(queryIndex([], query()).notes).toEqual([]);
+  });
+});
+
+describe('index shards', () => {
+  it('adds, replaces and removes entries', async () => {
+    const bucket = new FakeBucket();
+    const vault = newVault();
+
+    await addToIndex(bucket.asBucket(), vault, [entry(1), entry(2)]);
+    await setIndexViews(bucket.asBucket(), vault, new Map([[entry(1).hash, 7]]));
+    await addToIndex(bucket.asBucket(), vault, [entry(1, { title: 'Renamed', tags: ['new'] })]);
+
+    const notes = await readIndex(bucket.asBucket(), vault);
+    expect(notes.map((n) => [n.title, n.views, n.tags])).toEqual([
+      ['Note 2', undefined, undefined],
+      ['Renamed', 7, ['new']],
+    ]);
+    expect(await isIndexed(bucket.asBucket(), vault, entry(1).hash)).toBe(true);
+
+    await removeFromIndex(bucket.asBucket(), vault, 'note-1', entry(1).hash);
+    expect((await readIndex(bucket.asBucket(), vault)).map((n) => n.title)).toEqual(['Note 2']);
+    expect(await isIndexed(bucket.asBucket(), vault, entry(1).hash)).toBe(false);
+  });
+
+  it('starts a new shard when the newest is full', async () => {
+    const bucket = new FakeBucket();
+    const vault = newVault();
+    const notes = Array.from({ length: SHARD_SIZE * 2 + 10 }, (_, i) => entry(i));
+
+    await addToIndex(bucket.asBucket(), vault, notes.slice(0, SHARD_SIZE - 5));
+    await addToIndex(bucket.asBucket(), vault, notes.slice(SHARD_SIZE - 5));
+
+    expect(bucket.read(`${vault}/index/shards.json`)).toEqual({ shards: 3 });
+    const sizes = [0, 1, 2].map((n) => (bucket.read(`${vault}/index/shard-${n}.json`) as { notes: IndexEntry[] }).notes.length);
+    expect(sizes).toEqual([SHARD_SIZE, SHARD_SIZE, 10]);
+    expect(await readIndex(bucket.asBucket(), vault)).toHaveLength(notes.length);
+  });
+
+  it('reads only the shards a newest-first page needs', async () => {
+    const bucket = new FakeBucket();
+    const vault = newVault();
+    const notes = Array.from({ length: SHARD_SIZE * 3 }, (_, i) => entry(i));
+    await addToIndex(bucket.asBucket(), vault, notes);
+
+    bucket.reads.clear();
+    const first = await listIndex(bucket.asBucket(), vault, query({ limit: '20' }));
+    expect(first.notes[0].title).toBe(`Note ${SHARD_SIZE * 3 - 1}`);
+    expect([...bucket.reads.keys()].filter((key) => key.includes('/shard-'))).toEqual([`${vault}/index/shard-2.json`]);
+
+    // A cursor near the end of the oldest shard starts there
+    const deep = queryIndex(notes, query({ order: 'asc', limit: '10' }));
+    bucket.reads.clear();
+    const next = await listIndex(bucket.asBucket(), vault, query({ limit: '5', cursor: deep.cursor! }));
+    expect(next.notes.map((n) => n.title)).toEqual(['Note 8', 'Note 7', 'Note 6', 'Note 5', 'Note 4']);
+    expect([...bucket.reads.keys()].filter((key) => key.includes('/shard-'))).toEqual([`${vault}/index/shard-0.json`]);
+  });
+
+  it('lists the same pages from shards as from the whole index', async () => {
+    const bucket = new FakeBucket();
+    const vault = newVault();
+    const notes = Array.from({ length: SHARD_SIZE + 40 }, (_, i) => entry(i, { tags: i % 3 ? ['odd'] : ['even'] }));
+    await addToIndex(bucket.asBucket(), vault, notes);
+
+    const listings: Record<string, string>[] = [{ order: 'desc' }, { order: 'asc' }, { tag: 'even' }, { sort: 'title' }];
+    for (const params of listings) {
+      let cursor: string | undefined;
+      const listed: string[] = [];
+      do {
+        const page = await listIndex(bucket.asBucket(), vault, query({ ...params, limit: '200', ...(cursor ? { cursor } : {}) }));
+        listed.push(...page.notes.map((n) => n.title));
+        cursor = page.cursor;
+      } while (cursor);
+
+      expect(listed).toEqual(allPages(notes, { ...params, limit: '200' }).flat());
+    }
+  });
+
+  it('gives re-keyed entries their new hashes in place', async () => {
+    const bucket = new FakeBucket();
+    const vault = newVault();
+    await addToIndex(bucket.asBucket(), vault, [entry(1), entry(2)]);
+
+    await remapIndex(bucket.asBucket(), vault, new Map([[`note-1:${entry(1).hash}`, 'ffffffffffffffff']]));
+
+    expect((await readIndex(bucket.asBucket(), vault)).map((n) => n.hash)).toEqual([entry(2).hash, 'ffffffffffffffff']);
+    expect(await isIndexed(bucket.asBucket(), vault, 'ffffffffffffffff')).toBe(true);
+    expect(await isIndexed(bucket.asBucket(), vault, entry(1).hash)).toBe(false);
+  });
+});
+
+describe('index migration', () => {
+  it('moves a single-object index into shards in creation order', async () => {
+    const bucket = new FakeBucket();
+    const vault = newVault();
+    const notes = Array.from({ length: SHARD_SIZE + 1 }, (_, i) => entry(i, { views: i }));
+    await bucket.put(`${vault}/index.json`, JSON.stringify({ notes: [...notes].reverse() }));
+
+    const listed = await listIndex(bucket.asBucket(), vault, query({ limit: '1' }));
+
+    expect(listed.notes.map((n) => n.title)).toEqual([`Note ${SHARD_SIZE}`]);
+    expect(bucket.read(`${vault}/index.json`)).toBeUndefined();
+    expect(bucket.read(`${vault}/index/shards.json`)).toEqual({ shards: 2 });
+    expect((bucket.read(`${vault}/index/shard-1.json`) as { notes: IndexEntry[] }).notes).toEqual([notes[SHARD_SIZE]]);
+    expect(await readIndex(bucket.asBucket(), vault)).toEqual([...notes].reverse());
+  });
+
+  it('merges hash-digit shards over the single-object index', async () => {
+    const bucket = new FakeBucket();
+    const vault = newVault();
+    await bucket.put(`${vault}/index.json`, JSON.stringify({ notes: [entry(1), entry(2, { title: 'Old title' })] }));
+    await bucket.put(`${vault}/index/0.json`, JSON.stringify({ notes: [entry(2, { title: 'New title' }), entry(3)] }));
+
+    expect(await isIndexed(bucket.asBucket(), vault, entry(3).hash)).toBe(true);
+    expect((await readIndex(bucket.asBucket(), vault)).map((n) => n.title)).toEqual(['Note 3', 'New title', 'Note 1']);
+    expect(bucket.read(`${vault}/index/0.json`)).toBeUndefined();
+  });
+
+  it('keeps entries added by another isolate after it migrated', async () => {
+    const bucket = new FakeBucket();
+    const vault = newVault();
+    // Already migrated elsewhere, with a stale old index left behind
+    await bucket.put(`${vault}/index/shards.json`, JSON.stringify({ shards: 1 }));
+    await bucket.put(`${vault}/index/shard-0.json`, JSON.stringify({ notes: [entry(1)] }));
+    await bucket.put(`${vault}/index.json`, JSON.stringify({ notes: [entry(9)] }));
+
+    expect((await readIndex(bucket.asBucket(), vault)).map((n) => n.title)).toEqual(['Note 1']);
+  });
+});
@@ -0,0 +1,440 @@
+import { NoteIndex, NoteIndexManifest, NoteSort, ViewLog } from './types';
+import { updateJson } from './r2-json';
+
+export type IndexEntry = NoteIndex['notes'][number];
+
+// Entries per shard. Shards fill up in the order notes are first shared, so
+// newest-first pages only read the newest shards.
+export const SHARD_SIZE = 500;
+
+// Shards of the previous layout, one per leading hash digit
+const HASH_SHARD_IDS = '0123456789abcdef'.split('');
+
+// Page size of GET /api/notes
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+// Vaults whose index has been moved to the current layout (per isolate)
+const migrated = new Set<string>();
+
+export interface NoteQuery {
+  sort: NoteSort;
+  order: 'asc' | 'desc';
+  limit: number;
+  cursor?: string;
+  prefix?: string; // title prefix (case-insensitive)
+  tag?: string; // also matches nested tags (tag/child)
+}
+
+function manifestKey(vault: string): string {
+  return `${vault}/index/shards.json`;
+}
+
+function shardKey(vault: string, shard: number): string {
+  return `${vault}/index/shard-${shard}.json`;
+}
+
+// Empty object per indexed note, with the shard holding its entry in the metadata
+function locatorKey(vault: string, hash: string): string {
+  return `${vault}/index/notes/${hash}`;
+}
+
+async function shardCount(bucket: R2Bucket, vault: string): Promise<number> {
+  const manifest = await bucket.get(manifestKey(vault));
+  return manifest ? (await manifest.json<NoteIndexManifest>()).shards : 0;
+}
+
+async function readShard(bucket: R2Bucket, vault: string, shard: number): Promise<IndexEntry[]> {
+  const obj = await bucket.get(shardKey(vault, shard));
+  return obj ? (await obj.json<NoteIndex>()).notes : [];
+}
+
+/**
+ * The shard holding a note's entry (undefined if the note is not indexed)
+ */
+async function locate(bucket: R2Bucket, vault: string, hash: string): Promise<number | undefined> {
+  const locator = await bucket.head(locatorKey(vault, hash));
+  const shard = Number(locator?.customMetadata?.shard);
+  return locator && Number.isInteger(shard) ? shard : undefined;
+}
+
+async function setLocation(bucket: R2Bucket, vault: string, hash: string, shard: number): Promise<void> {
+  await bucket.put(locatorKey(vault, hash), '', { customMetadata: { shard: String(shard) } });
+}
+
+/**
+ * Every note in a vault's index (all shards), newest first
+ */
+export async function readIndex(bucket: R2Bucket, vault: string): Promise<IndexEntry[]> {
+  await migrateIndex(bucket, vault);
+  const count = await shardCount(bucket, vault);
+  const shards = await Promise.all(Array.from({ length: count }, (_, shard) => readShard(bucket, vault, shard)));
+
+  const entries = new Map(shards.flat().map((entry) => [entry.hash, entry]));
+  return [...entries.values()].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Whether a note is in a vault's index (a single metadata read)
+ */
+export async function isIndexed(bucket: R2Bucket, vault: string, hash: string): Promise<boolean> {
+  await migrateIndex(bucket, vault);
+  return (await locate(bucket, vault, hash)) !== undefined;
+}
+
+/**
+ * Add or replace index entries (one conditional write per touched shard).
+ * Replaced entries keep their shard and view count; new ones are appended to
+ * the newest shard, starting another when it is full.
+ */
+export async function addToIndex(bucket: R2Bucket, vault: string, entries: IndexEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+  await migrateIndex(bucket, vault);
+
+  const located = await Promise.all(entries.map(async (entry) => ({ entry, shard: await locate(bucket, vault, entry.hash) })));
+  const replaced = new Map<number, IndexEntry[]>();
+  for (const { entry, shard } of located) {
+    if (shard !== undefined) replaced.set(shard, [...(replaced.get(shard) || []), entry]);
+  }
+
+  await Promise.all(
+    [...replaced].map(([shard, changed]) =>
+      updateJson<NoteIndex>(bucket, shardKey(vault, shard), (index = { notes: [] }) => {
+        const existing = new Map(index.notes.map((n) => [n.hash, n]));
+        const hashes = new Set(changed.map((n) => n.hash));
+        const notes = changed.map((n) => ({ views: existing.get(n.hash)?.views, ...n }));
+        return { notes: [...notes, ...index.notes.filter((n) => !hashes.has(n.hash))] };
+      })
+    )
+  );
+
+  // Oldest first, so the shards stay in creation order
+  const added = located.filter((item) => item.shard === undefined).map((item) => item.entry);
+  await appendToIndex(bucket, vault, added.sort((a, b) => a.createdAt.localeCompare(b.createdAt)));
+}
+
+async function appendToIndex(bucket: R2Bucket, vault: string, entries: IndexEntry[]): Promise<void> {
+  const count = await shardCount(bucket, vault);
+  let pending = entries;
+
+  for (let shard = Math.max(0, count - 1); pending.length > 0; shard++) {
+    let appended: IndexEntry[] = [];
+    await updateJson<NoteIndex>(bucket, shardKey(vault, shard), (index = { notes: [] }) => {
+      appended = pending.slice(0, Math.max(0, SHARD_SIZE - index.notes.length));
+      if (appended.length === 0) return undefined;
+
+      // A concurrent share of the same note may have appended it already
+      const hashes = new Set(appended.map((n) => n.hash));
+      return { notes: [...index.notes.filter((n) => !hashes.has(n.hash)), ...appended] };
+    });
+    pending = pending.slice(appended.length);
+    if (appended.length === 0) continue;
+
+    await Promise.all(appended.map((n) => setLocation(bucket, vault, n.hash, shard)));
+    if (shard >= count) {
+      await updateJson<NoteIndexManifest>(bucket, manifestKey(vault), (manifest) =>
+        manifest && manifest.shards > shard ? undefined : { shards: shard + 1 }
+      );
+    }
+  }
+}
+
+export async function removeFromIndex(bucket: R2Bucket, vault: string, titleSlug: string, hash: string): Promise<void> {
+  await migrateIndex(bucket, vault);
+  const shard = await locate(bucket, vault, hash);
+  if (shard === undefined) return;
+  const matches = (n: IndexEntry) => n.titleSlug === titleSlug && n.hash === hash;
+
+  await updateJson<NoteIndex>(bucket, shardKey(vault, shard), (index) => {
+    if (!index?.notes.some(matches)) return undefined;
+    return { notes: index.notes.filter((n) => !matches(n)) };
+  });
+  await bucket.delete(locatorKey(vault, hash));
+}
+
+/**
+ * Update fields of a single index entry (no-op if the note is not indexed)
+ */
+export async function updateIndexEntry(
+  bucket: R2Bucket,
+  vault: string,
+  titleSlug: string,
+  hash: string,
+  patch: Partial<IndexEntry>
+): Promise<void> {
+  await migrateIndex(bucket, vault);
+  const shard = await locate(bucket, vault, hash);
+  if (shard === undefined) return;
+
+  await updateJson<NoteIndex>(bucket, shardKey(vault, shard), (index) => {
+    const entry = index?.notes.find((n) => n.titleSlug === titleSlug && n.hash === hash);
+    if (!index || !entry) return undefined;
+
+    Object.assign(entry, patch);
+    return index;
+  });
+}
+
+/**
+ * Record view counts (hash -> views) in a vault's index, one conditional write
+ * per touched shard. Notes not in the index are skipped.
+ */
+export async function setIndexViews(bucket: R2Bucket, vault: string, views: Map<string, number>): Promise<void> {
+  await migrateIndex(bucket, vault);
+  const located = await Promise.all([...views.keys()].map((hash) => locate(bucket, vault, hash)));
+  const shards = new Set(located.filter((shard): shard is number => shard !== undefined));
+
+  await Promise.all(
+    [...shards].map((shard) =>
+      updateJson<NoteIndex>(bucket, shardKey(vault, shard), (index) => {
+        // Counts only grow: an older, slower update must not win
+        const changed = index?.notes.filter((n) => (views.get(n.hash) || 0) > (n.views || 0)) || [];
+        if (!index || changed.length === 0) return undefined;
+
+        for (const entry of changed) entry.views = views.get(entry.hash);
+        return index;
+      })
+    )
+  );
+}
+
+/**
+ * Copy the totals of view logs (stats/{hash}.json) written since `since` into
+ * their vaults' indexes (scheduled). Views are counted per note on every page
+ * view; the shared index shards are only written here, so busy notes don't
+ * contend for them. Returns the number of notes updated.
+ */
+export async function syncIndexViews(bucket: R2Bucket, since: Date): Promise<number> {
+  const byVault = new Map<string, Map<string, number>>();
+  let cursor: string | undefined;
+  let synced = 0;
+
+  do {
+    // The delimiter leaves out the daily rollups in stats/{hash}/
+    const list = await bucket.list({ prefix: 'stats/', delimiter: '/', cursor });
+    const recent = list.objects.filter((obj) => obj.key.endsWith('.json') && obj.uploaded >= since);
+
+    const logs = await Promise.all(
+      recent.map(async (obj) => {
+        const log = await bucket.get(obj.key);
+        return log ? { hash: obj.key.slice('stats/'.length, -'.json'.length), log: await log.json<ViewLog>() } : undefined;
+      })
+    );
+    for (const item of logs) {
+      if (!item?.log.vault) continue;
+      const views = byVault.get(item.log.vault) || new Map<string, number>();
+      views.set(item.hash, item.log.total);
+      byVault.set(item.log.vault, views);
+      synced++;
+    }
+
+    cursor = list.truncated ? list.cursor : undefined;
+  } while (cursor);
+
+  for (const [vault, views] of byVault) {
+    await setIndexViews(bucket, vault, views);
+  }
+  return synced;
+}
+
+/**
+ * Give re-keyed entries their new hashes after a URL secret change; entries
+ * stay in their shards (hashMap: `${titleSlug}:${oldHash}` -> newHash)
+ */
+export async function remapIndex(bucket: R2Bucket, vault: string, hashMap: Map<string, string>): Promise<void> {
+  await migrateIndex(bucket, vault);
+  const moves = await Promise.all(
+    [...hashMap].map(async ([key, newHash]) => {
+      const oldHash = key.slice(key.lastIndexOf(':') + 1);
+      return { oldHash, newHash, shard: await locate(bucket, vault, oldHash) };
+    })
+  );
+  const shards = new Set(moves.map((move) => move.shard).filter((shard): shard is number => shard !== undefined));
+
+  await Promise.all(
+    [...shards].map((shard) =>
+      updateJson<NoteIndex>(bucket, shardKey(vault, shard), (index) => {
+        const moved = index?.notes.filter((n) => hashMap.has(`${n.titleSlug}:${n.hash}`)) || [];
+        if (!index || moved.length === 0) return undefined;
+
+        return { notes: index.notes.map((n) => (moved.includes(n) ? { ...n, hash: hashMap.get(`${n.titleSlug}:${n.hash}`)! } : n)) };
+      })
+    )
+  );
+
+  await Promise.all(
+    moves.map(async ({ oldHash, newHash, shard }) => {
+      if (shard === undefined) return;
+      await setLocation(bucket, vault, newHash, shard);
+      await bucket.delete(locatorKey(vault, oldHash));
+    })
+  );
+}
+
+/**
+ * One page of GET /api/notes. Pages by creation date read shards in order,
+ * starting at the cursor's, until the page is full. Other orders are not
+ * stored, so they read every shard.
+ */
+export async function listIndex(bucket: R2Bucket, vault: string, query: NoteQuery): Promise<{ notes: IndexEntry[]; cursor?: string }> {
+  if (query.sort !== 'created') return queryIndex(await readIndex(bucket, vault), query);
+
+  await migrateIndex(bucket, vault);
+  const count = await shardCount(bucket, vault);
+  const step = query.order === 'desc' ? -1 : 1;
+  // Earlier shards (in page order) only hold notes before the cursor; if its
+  // note has been deleted, start from the first shard
+  const after = query.cursor ? decodeCursor(query.cursor) : undefined;
+  const cursorShard = after ? await locate(bucket, vault, after[1]) : undefined;
+
+  const seen = new Set<string>();
+  const entries: IndexEntry[] = [];
+  for (let shard = cursorShard ?? (step < 0 ? count - 1 : 0); shard >= 0 && shard < count; shard += step) {
+    for (const entry of await readShard(bucket, vault, shard)) {
+      if (!seen.has(entry.hash)) entries.push(entry);
+      seen.add(entry.hash);
+    }
+
+    // More matches than the page holds: later shards only hold later notes
+    const page = queryIndex(entries, query);
+    if (page.cursor) return page;
+  }
+
+  return queryIndex(entries, query);
+}
+
+/**
+ * One page of a vault's notes. The cursor holds the last note's sort value
+ * and hash, so pages stay consistent while notes are shared or deleted.
+ */
+export function queryIndex(entries: IndexEntry[], query: NoteQuery): { notes: IndexEntry[]; cursor?: string } {
+  const prefix = query.prefix?.toLowerCase();
+  const tag = query.tag?.replace(/^#/, '').toLowerCase();
+
+  const matching = entries.filter((n) => {
+    if (prefix && !n.title.toLowerCase().startsWith(prefix)) return false;
+    if (tag && !(n.tags || []).some((t) => t.toLowerCase() === tag || t.toLowerCase().startsWith(`${tag}/`))) return false;
+    return true;
+  });
+
+  const direction = query.order === 'asc' ? 1 : -1;
+  const compare = (a: [string | number, string], b: [string | number, string]) => {
+    const byValue = a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0;
+    return (byValue || a[1].localeCompare(b[1])) * direction;
+  };
+
+  const sorted = matching
+    .map((n) => ({ n, key: [sortValue(n, query.sort), n.hash] as [string | number, string] }))
+    .sort((a, b) => compare(a.key, b.key));
+
+  const after = query.cursor ? decodeCursor(query.cursor) : undefined;
+  const start = after ? sorted.findIndex((item) => compare(item.key, after) > 0) : 0;
+  const page = start < 0 ? [] : sorted.slice(start, start + query.limit);
+
+  const more = start >= 0 && start + query.limit < sorted.length;
+  return {
+    notes: page.map((item) => item.n),
+    cursor: more ? encodeCursor(page[page.length - 1].key) : undefined,
+  };
+}
+
+/**
+ * Parse GET /api/notes query parameters; returns an error message for invalid ones
+ */
+export function parseNoteQuery(params: Record<string, string | undefined>): NoteQuery | string {
+  const sort = (params.sort || 'created') as NoteSort;
+  if (!['created', 'updated', 'title', 'views'].includes(sort)) {
+    return 'sort must be created, updated, title or views';
+  }
+
+  const order = params.order || (sort === 'title' ? 'asc' : 'desc');
+  if (order !== 'asc' && order !== 'desc') {
+    return 'order must be asc or desc';
+  }
+
+  const limit = params.limit ? Number(params.limit) : DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1) {
+    return 'limit must be a positive integer';
+  }
+
+  if (params.cursor && !decodeCursor(params.cursor)) {
+    return 'Invalid cursor';
+  }
+
+  return {
+    sort,
+    order,
+    limit: Math.min(limit, MAX_PAGE_SIZE),
+    cursor: params.cursor || undefined,
+    prefix: params.prefix || undefined,
+    tag: params.tag || undefined,
+  };
+}
+
+function sortValue(entry: IndexEntry, sort: NoteSort): string | number {
+  switch (sort) {
+    case 'created':
+      return entry.createdAt;
+    case 'updated':
+      return entry.updatedAt || entry.createdAt;
+    case 'title':
+      return entry.title.toLowerCase();
+    case 'views':
+      return entry.views || 0;
+  }
+}
+
+function encodeCursor(key: [string | number, string]): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(key));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function decodeCursor(cursor: string): [string | number, string] | undefined {
+  try {
+    const binary = atob(cursor.replace(/-/g, '+').replace(/_/g, '/'));
+    const key = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0))));
+    const valid = Array.isArray(key) && key.length === 2 && ['string', 'number'].includes(typeof key[0]) && typeof key[1] === 'string';
+    return valid ? (key as [string | number, string]) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Move a vault's index from an older layout (a single {vault}/index.json, or
+ * 16 shards {vault}/index/{0-f}.json keyed by the first hash digit, whose
+ * entries win) into shards in creation order. Shards and the manifest are only
+ * created if missing, so isolates migrating at once write the same index.
+ */
+async function migrateIndex(bucket: R2Bucket, vault: string): Promise<void> {
+  if (migrated.has(vault)) return;
+  if (await bucket.head(manifestKey(vault))) {
+    migrated.add(vault);
+    return;
+  }
+
+  const oldKeys = [`${vault}/index.json`, ...HASH_SHARD_IDS.map((id) => `${vault}/index/${id}.json`)];
+  const objects = await Promise.all(oldKeys.map((key) => bucket.get(key)));
+  const entries = new Map<string, IndexEntry>();
+  for (const obj of objects) {
+    if (!obj) continue;
+    for (const entry of (await obj.json<NoteIndex>()).notes) entries.set(entry.hash, entry);
+  }
+
+  if (entries.size > 0) {
+    const sorted = [...entries.values()].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    const shards = Array.from({ length: Math.ceil(sorted.length / SHARD_SIZE) }, (_, i) =>
+      sorted.slice(i * SHARD_SIZE, (i + 1) * SHARD_SIZE)
+    );
+
+    await Promise.all(
+      shards.map(async (notes, shard) => {
+        await updateJson<NoteIndex>(bucket, shardKey(vault, shard), (index) => (index ? undefined : { notes }));
+        await Promise.all(notes.map((n) => setLocation(bucket, vault, n.hash, shard)));
+      })
+    );
+    await updateJson<NoteIndexManifest>(bucket, manifestKey(vault), (manifest) => (manifest ? undefined : { shards: shards.length }));
+    await Promise.all(oldKeys.filter((_, i) => objects[i]).map((key) => bucket.delete(key)));
+  }
+  migrated.add(vault);
+}
@@ -0,0 +1,108 @@
+import { RenderedMeta, RenderedPage } from './prerender';
+
+// How long a page may sit in a data center's edge cache (seconds). Purges only
+// reach the current data center, so a page deleted or given a password can be
+// served publicly elsewhere for this long; kept short for that reason.
+export const EDGE_CACHE_TTL = 60;
+
+// Edge cache holding rendered pages (a named cache, kept apart from other cached responses)
+const PAGE_CACHE_NAME = 'pages';
+
+// Stored page metadata, kept with the cached copy
+const META_HEADER = 'X-Render-Meta';
+
+/**
+ * Browser and shared caches keep pages but revalidate every time (cheap with
+ * the ETag), so a re-shared note shows up on the next view
+ */
+export const PAGE_CACHE_CONTROL = 'public, no-cache';
+
+export interface PageValidators {
+  etag: string;
+  lastModified: Date;
+}
+
+/**
+ * Canonical page URL, used as the edge cache key (query strings ignored)
+ */
+export function pageUrl(origin: string, vault: string, titleSlug: string, hash: string): string {
+  return `${origin}/g/${vault}/${titleSlug}/${hash}`;
+}
+
+/**
+ * Validators for a rendered page: it changes when the note is re-shared, the
+ * vault theme is synced or the renderer is upgraded. Weak, since every
+ * response carries its own CSP nonce.
+ */
+export function pageValidators(meta: RenderedMeta): PageValidators {
+  const noteTime = Date.parse(meta.updatedAt) || 0;
+  const themeTime = Date.parse(meta.themeUpdatedAt) || 0;
+  return {
+    etag: `W/"${meta.renderVersion}-${noteTime.toString(36)}-${themeTime.toString(36)}"`,
+    lastModified: new Date(Math.max(noteTime, themeTime)),
+  };
+}
+
+export function validatorHeaders(validators: PageValidators): Record<string, string> {
+  return {
+    ETag: validators.etag,
+    'Last-Modified': validators.lastModified.toUTCString(),
+  };
+}
+
+/**
+ * Whether a conditional request already has the current page.
+ * If-None-Match takes precedence over If-Modified-Since (RFC 9110).
+ */
+export function isNotModified(headers: Headers, validators: PageValidators): boolean {
+  const ifNoneMatch = headers.get('If-None-Match');
+  if (ifNoneMatch) {
+    const current = opaqueTag(validators.etag);
+    return ifNoneMatch.split(',').some((tag) => tag.trim() === '*' || opaqueTag(tag.trim()) === current);
+  }
+
+  const ifModifiedSince = Date.parse(headers.get('If-Modified-Since') || '');
+  if (Number.isNaN(ifModifiedSince)) return false;
+  // HTTP dates have one-second precision
+  return Math.floor(validators.lastModified.getTime() / 1000) * 1000 <= ifModifiedSince;
+}
+
+/**
+ * Entity tag without its weak prefix (If-None-Match uses weak comparison)
+ */
+function opaqueTag(tag: string): string {
+  return tag.replace(/^W\//, '');
+}
+
+/**
+ * A public page cached in this data center
+ */
+export async function getCachedPage(url: string): Promise<RenderedPage | undefined> {
+  const cache = await caches.open(PAGE_CACHE_NAME);
+  const cached = await cache.match(new Request(url));
+  const meta = cached?.headers.get(META_HEADER);
+  if (!cached?.body || !meta) return undefined;
+  return { body: cached.body, meta: JSON.parse(meta) };
+}
+
+export async function putCachedPage(url: string, page: RenderedPage): Promise<void> {
+  const cache = await caches.open(PAGE_CACHE_NAME);
+  await cache.put(
+    new Request(url),
+    new Response(page.body, {
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Cache-Control': `public, max-age=${EDGE_CACHE_TTL}`,
+        [META_HEADER]: JSON.stringify(page.meta),
+      },
+    })
+  );
+}
+
+/**
+ * Drop changed pages from this data center's edge cache
+ */
+export async function purgePages(urls: string[]): Promise<void> {
+  const cache = await caches.open(PAGE_CACHE_NAME);
+  await Promise.all(urls.map((url) => cache.delete(new Request(url))));
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { Hono } from 'hono';
+import { hashPassword, isUnlocked, resolvePassword, setUnlockCookie, verifyPassword } from './password';
+import { AppEnv, Env, StoredNote } from './types';
+
+describe('resolvePassword', () => {
+  it('keeps the stored hash and salt when a share re-sends the current password', async () => {
+    const existing = await hashPassword('correct horse');
+
+    // Unlock cookies are bound to the salt: a new one would sign every reader out
+    expect(await resolvePassword('correct horse', existing)).toBe(existing);
+  });
+
+  it('re-hashes with a new salt when the password changed', async () => {
+    const existing = await hashPassword('correct horse');
+    const changed = await resolvePassword('battery staple', existing);
+
+    expect(changed).toBeDefined();
+    expect(changed!.salt).not.toBe(existing.salt);
+    expect(await verifyPassword('battery staple', changed!)).toBe(true);
+    expect(await verifyPassword('correct horse', changed!)).toBe(false);
+  });
+
+  it('keeps the password when none is requested and removes it on null or empty', async () => {
+    const existing = await hashPassword('correct horse');
+
+    expect(await resolvePassword(undefined, existing)).toBe(existing);
+    expect(await resolvePassword(null, existing)).toBeUndefined();
+    expect(await resolvePassword('', existing)).toBeUndefined();
+  });
+});
+
+describe('unlock cookies', () => {
+  async function protectedNote(): Promise<StoredNote> {
+    return {
+      vault: 'vault',
+      titleSlug: 'note',
+      hash: '0123456789abcdef',
+      title: 'Note',
+      content: '',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+      linkedNotes: [],
+      password: await hashPassword('correct horse'),
+    };
+  }
+
+  function unlockApp(note: StoredNote): Hono<AppEnv> {
+    const app = new Hono<AppEnv>();
+    app.post('/unlock', async (c) => {
+      await setUnlockCookie(c, note);
+      return c.text('ok');
+    });
+    app.get('/view', async (c) => c.text(String(await isUnlocked(c, note))));
+    return app;
+  }
+
+  it('unlocks with a cookie signed by the session secret', async () => {
+    const app = unlockApp(await protectedNote());
+    const env = { SESSION_SECRET: 'session-secret' } as Env;
+
+    const unlock = await app.request('/unlock', { method: 'POST' }, env);
+    const cookie = unlock.headers.get('Set-Cookie')!.split(';')[0];
+    const view = await app.request('/view', { headers: { Cookie: cookie } }, env);
+    expect(await view.text()).toBe('true');
+  });
+
+  it('refuses to sign or check cookies without SESSION_SECRET or API_KEY', async () => {
+    const app = unlockApp(await protectedNote());
+    const env = {} as Env;
+
+    expect((await app.request('/unlock', { method: 'POST' }, env)).status).toBe(500);
+    expect((await app.request('/view', { headers: { Cookie: 'ns_unlock_0123456789abcdef=forged' } }, env)).status).toBe(500);
+  });
+});
@@ -0,0 +1,127 @@
+import type { Context } from 'hono';
+import { getSignedCookie, setSignedCookie } from 'hono/cookie';
+import { AppEnv, Env, NotePassword, StoredNote } from './types';
+
+// Workers cap PBKDF2 at 100k iterations
+const PBKDF2_ITERATIONS = 100000;
+const SALT_BYTES = 16;
+
+// How long an unlocked note stays readable without re-entering the password
+const UNLOCK_MAX_AGE = 7 * 24 * 60 * 60; // 7 days in seconds
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function fromHex(hex: string): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+async function deriveKey(password: string, salt: Uint8Array<ArrayBuffer>): Promise<string> {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations: PBKDF2_ITERATIONS },
+    keyMaterial,
+    256
+  );
+  return toHex(new Uint8Array(bits));
+}
+
+/**
+ * Hash a note password with a fresh random salt
+ */
+export async function hashPassword(password: string): Promise<NotePassword> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  return { salt: toHex(salt), hash: await deriveKey(password, salt) };
+}
+
+/**
+ * Constant-time comparison of a candidate password against the stored hash
+ */
+export async function verifyPassword(password: string, stored: NotePassword): Promise<boolean> {
+  const candidate = await deriveKey(password, fromHex(stored.salt));
+  if (candidate.length !== stored.hash.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < candidate.length; i++) {
+    diff |= candidate.charCodeAt(i) ^ stored.hash.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Resolve the password change requested by a share: undefined keeps the existing
+ * password, null or '' removes it, any other string replaces it.
+ * Re-sending the current password keeps the existing hash so unlock sessions survive.
+ */
+export async function resolvePassword(
+  requested: string | null | undefined,
+  existing: NotePassword | undefined
+): Promise<NotePassword | undefined> {
+  if (requested === undefined) return existing;
+  if (!requested) return undefined;
+  if (existing && (await verifyPassword(requested, existing))) return existing;
+  return hashPassword(requested);
+}
+
+function cookieName(note: StoredNote): string {
+  return `ns_unlock_${note.hash}`;
+}
+
+function cookiePath(note: StoredNote): string {
+  return `/g/${note.vault}/${note.titleSlug}/${note.hash}`;
+}
+
+/**
+ * Key signing unlock cookies. Fails closed: without a secret, protected notes
+ * can't be unlocked (API_KEY is optional once team keys are in use).
+ */
+function sessionSecret(env: Env): string {
+  const secret = env.SESSION_SECRET || env.API_KEY;
+  if (!secret) {
+    throw new Error('Neither SESSION_SECRET nor API_KEY is set: password-protected notes cannot be unlocked');
+  }
+  return secret;
+}
+
+/**
+ * Check the signed unlock cookie. The cookie is bound to the password salt,
+ * so changing or removing the password invalidates existing sessions.
+ */
+export async function isUnlocked(c: Context<AppEnv>, note: StoredNote): Promise<boolean> {
+  if (!note.password) return true;
+
+  const value = await getSignedCookie(c, sessionSecret(c.env), cookieName(note));
+  if (!value) return false;
+
+  const [salt, expires] = value.split(':');
+  return salt === note.password.salt && Number(expires) > Date.now();
+}
+
+/**
+ * Set the signed unlock cookie after a correct password was posted
+ */
+export async function setUnlockCookie(c: Context<AppEnv>, note: StoredNote): Promise<void> {
+  if (!note.password) return;
+
+  const expires = Date.now() + UNLOCK_MAX_AGE * 1000;
+  await setSignedCookie(c, cookieName(note), `${note.password.salt}:${expires}`, sessionSecret(c.env), {
+    path: cookiePath(note),
+    maxAge: UNLOCK_MAX_AGE,
+    httpOnly: true,
+    secure: true,
+    sameSite: 'Lax',
+  });
+}
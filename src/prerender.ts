@@ -0,0 +1,150 @@
+import { DualThemeSettings, StoredNote } from './types';
+
+/**
+ * Version of the page renderer. Bump it whenever rendered output changes:
+ * stored pages from older versions are served once more and rebuilt in the background.
+ */
+export const RENDER_VERSION = 3;
+
+// Nonce attribute value in stored pages, replaced with the response's own nonce when served
+export const PRERENDER_NONCE = 'prerendered';
+
+// Stored pages rebuilt per scheduled run (the rest wait for the next run or a view)
+const MAX_RERENDERS_PER_RUN = 200;
+
+/**
+ * What the view route needs to know about a stored page without reading the note
+ */
+export interface RenderedMeta {
+  vault: string;
+  updatedAt: string; // note's updatedAt when rendered
+  themeUpdatedAt: string; // '' = default theme
+  renderVersion: number;
+  expiresAt?: string; // share-expires or retention, whichever comes first
+  protected: boolean;
+}
+
+export interface RenderedPage {
+  body: ReadableStream | string;
+  meta: RenderedMeta;
+}
+
+export function renderedKey(titleSlug: string, hash: string): string {
+  return `rendered/${titleSlug}-${hash}.html`;
+}
+
+export async function getRendered(bucket: R2Bucket, titleSlug: string, hash: string): Promise<RenderedPage | undefined> {
+  const obj = await bucket.get(renderedKey(titleSlug, hash));
+  if (!obj) return undefined;
+  return { body: obj.body, meta: parseMeta(obj.customMetadata || {}) };
+}
+
+/**
+ * Store a note's rendered page (its render inputs go into the object's metadata)
+ */
+export async function putRendered(
+  bucket: R2Bucket,
+  note: StoredNote,
+  theme: DualThemeSettings | undefined,
+  expiresAt: Date | undefined,
+  html: string
+): Promise<RenderedPage> {
+  const meta: RenderedMeta = {
+    vault: note.vault,
+    updatedAt: note.updatedAt,
+    themeUpdatedAt: theme?.updatedAt || '',
+    renderVersion: RENDER_VERSION,
+    expiresAt: expiresAt?.toISOString(),
+    protected: !!note.password,
+  };
+
+  await bucket.put(renderedKey(note.titleSlug, note.hash), html, {
+    httpMetadata: { contentType: 'text/html; charset=utf-8' },
+    customMetadata: {
+      vault: meta.vault,
+      updatedAt: meta.updatedAt,
+      themeUpdatedAt: meta.themeUpdatedAt,
+      renderVersion: String(meta.renderVersion),
+      ...(meta.expiresAt ? { expiresAt: meta.expiresAt } : {}),
+      protected: meta.protected ? '1' : '0',
+    },
+  });
+  return { body: html, meta };
+}
+
+export async function deleteRendered(bucket: R2Bucket, titleSlug: string, hash: string): Promise<void> {
+  await bucket.delete(renderedKey(titleSlug, hash));
+}
+
+/**
+ * Rendered by an older renderer or with a theme that has since been synced.
+ * Only newer counts: an isolate still caching the old theme must not roll a page back.
+ */
+export function isStale(meta: RenderedMeta, theme: DualThemeSettings | undefined): boolean {
+  const themeTime = Date.parse(theme?.updatedAt || '') || 0;
+  return meta.renderVersion < RENDER_VERSION || themeTime > (Date.parse(meta.themeUpdatedAt) || 0);
+}
+
+/**
+ * Stream a stored page, giving its inline scripts the response's CSP nonce
+ */
+export function withNonce(body: ReadableStream | string, nonce: string, init: ResponseInit): Response {
+  return new HTMLRewriter()
+    .on('script[nonce]', {
+      element(el) {
+        el.setAttribute('nonce', nonce);
+      },
+    })
+    .transform(new Response(body, init));
+}
+
+/**
+ * Rebuild stored pages left behind by a renderer upgrade or theme sync (scheduled).
+ * Pages of deleted notes are removed. Returns the number of pages rebuilt.
+ */
+export async function rerenderStalePages(
+  bucket: R2Bucket,
+  getTheme: (vault: string) => Promise<DualThemeSettings | undefined>,
+  rerender: (note: StoredNote) => Promise<unknown>
+): Promise<number> {
+  let cursor: string | undefined;
+  let rebuilt = 0;
+
+  do {
+    const list = await bucket.list({ prefix: 'rendered/', cursor });
+
+    for (const object of list.objects) {
+      if (rebuilt >= MAX_RERENDERS_PER_RUN) return rebuilt;
+
+      const head = await bucket.head(object.key);
+      if (!head) continue;
+      const meta = parseMeta(head.customMetadata || {});
+      if (!isStale(meta, await getTheme(meta.vault))) continue;
+
+      const noteKey = `notes/${object.key.slice('rendered/'.length, -'.html'.length)}.json`;
+      const noteObj = await bucket.get(noteKey);
+      if (!noteObj) {
+        await bucket.delete(object.key);
+        continue;
+      }
+
+      await rerender(await noteObj.json<StoredNote>());
+      rebuilt++;
+    }
+
+    cursor = list.truncated ? list.cursor : undefined;
+  } while (cursor);
+
+  return rebuilt;
+}
+
+function parseMeta(metadata: Record<string, string>): RenderedMeta {
+  return {
+    vault: metadata.vault || '',
+    updatedAt: metadata.updatedAt || '',
+    themeUpdatedAt: metadata.themeUpdatedAt || '',
+    renderVersion: Number(metadata.renderVersion) || 0,
+    expiresAt: metadata.expiresAt || undefined,
+    protected: metadata.protected === '1',
+  };
+}
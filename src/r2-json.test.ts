@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { updateJson } from './r2-json';
+import { updateVaultConfig } from './vault-config';
+
+/**
+ * In-memory bucket honouring the etag preconditions updateJson relies on.
+ * Every call yields first, so concurrent writers interleave like real requests.
+ */
+class FakeBucket {
+  objects = new Map<string, { body: string; etag: string }>();
+  puts = 0;
+  private version = 0;
+
+  async get(key: string) {
+    await Promise.resolve();
+    const object = this.objects.get(key);
+    if (!object) return null;
+    return { etag: object.etag, json: async () => JSON.parse(object.body) };
+  }
+
+  async put(key: string, body: string, options?: { onlyIf?: { etagMatches?: string; etagDoesNotMatch?: string } }) {
+    await Promise.resolve();
+    this.puts++;
+    const current = this.objects.get(key);
+    const onlyIf = options?.onlyIf;
+    if (onlyIf?.etagMatches !== undefined && current?.etag !== onlyIf.etagMatches) return null;
+    if (onlyIf?.etagDoesNotMatch === '*' && current) return null;
+
+    this.objects.set(key, { body, etag: `etag-${++this.version}` });
+    return {};
+  }
+
+  read(key: string): unknown {
+    const object = this.objects.get(key);
+    return object && JSON.parse(object.body);
+  }
+
+  asBucket(): R2Bucket {
+    return this as unknown as R2Bucket;
+  }
+}
+
+beforeEach(() => {
+  // No backoff between attempts
+  vi.spyOn(Math, 'random').mockReturnValue(0);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('updateJson', () => {
+  it('creates a missing object and updates an existing one', async () => {
+    const bucket = new FakeBucket();
+
+    expect(await updateJson<{ n: number }>(bucket.asBucket(), 'counter.json', (c = { n: 0 }) => ({ n: c.n + 1 }))).toEqual({ n: 1 });
+    expect(await updateJson<{ n: number }>(bucket.asBucket(), 'counter.json', (c = { n: 0 }) => ({ n: c.n + 1 }))).toEqual({ n: 2 });
+    expect(bucket.read('counter.json')).toEqual({ n: 2 });
+  });
+
+  it('keeps every update from concurrent writers', async () => {
+    const bucket = new FakeBucket();
+    const writers = 20;
+
+    await Promise.all(
+      Array.from({ length: writers }, (_, i) =>
+        updateJson<{ ids: number[] }>(bucket.asBucket(), 'list.json', (c = { ids: [] }) => ({ ids: [...c.ids, i] }))
+      )
+    );
+
+    const { ids } = bucket.read('list.json') as { ids: number[] };
+    expect([...ids].sort((a, b) => a - b)).toEqual(Array.from({ length: writers }, (_, i) => i));
+    // Writers that lost a race retried on the fresh value
+    expect(bucket.puts).toBeGreaterThan(writers);
+  });
+
+  it('lets only one of several creators of a missing object win', async () => {
+    const bucket = new FakeBucket();
+
+    const results = await Promise.all(
+      ['a', 'b', 'c'].map((salt) =>
+        updateJson<{ salt: string }>(bucket.asBucket(), 'salt.json', (current) => (current ? undefined : { salt }))
+      )
+    );
+
+    const stored = bucket.read('salt.json');
+    expect(results.every((r) => JSON.stringify(r) === JSON.stringify(stored))).toBe(true);
+  });
+
+  it('leaves the object alone when the update returns undefined', async () => {
+    const bucket = new FakeBucket();
+    await bucket.put('config.json', JSON.stringify({ a: 1 }));
+    bucket.puts = 0;
+
+    expect(await updateJson(bucket.asBucket(), 'config.json', () => undefined)).toEqual({ a: 1 });
+    expect(bucket.puts).toBe(0);
+  });
+
+  it('gives up after repeated conflicts', async () => {
+    const bucket = new FakeBucket();
+    await bucket.put('busy.json', JSON.stringify({ n: 0 }));
+    // Another writer changes the object between every read and write
+    const put = bucket.put.bind(bucket);
+    bucket.put = async (key, body, options) => {
+      await put(key, JSON.stringify({ n: Math.random() }));
+      return put(key, body, options);
+    };
+
+    await expect(updateJson<{ n: number }>(bucket.asBucket(), 'busy.json', (c) => ({ n: (c?.n || 0) + 1 }))).rejects.toThrow(
+      'Gave up updating busy.json after 10 conflicting writes'
+    );
+  });
+});
+
+describe('updateVaultConfig', () => {
+  it('keeps concurrent changes to different settings', async () => {
+    const bucket = new FakeBucket();
+
+    await Promise.all([
+      updateVaultConfig(bucket.asBucket(), 'vault', { html: { allowTags: ['iframe'] } }),
+      updateVaultConfig(bucket.asBucket(), 'vault', { frameAncestors: ['https://wiki.example.com'] }),
+      updateVaultConfig(bucket.asBucket(), 'vault', { hashSecret: 'secret' }),
+    ]);
+
+    expect(bucket.read('vault/config.json')).toEqual({
+      html: { allowTags: ['iframe'] },
+      frameAncestors: ['https://wiki.example.com'],
+      hashSecret: 'secret',
+    });
+  });
+
+  it('removes settings set to undefined', async () => {
+    const bucket = new FakeBucket();
+    await updateVaultConfig(bucket.asBucket(), 'vault', { hashSecret: 'secret', frameAncestors: ['https://a.example.com'] });
+
+    expect(await updateVaultConfig(bucket.asBucket(), 'vault', { hashSecret: undefined })).toEqual({
+      frameAncestors: ['https://a.example.com'],
+    });
+    expect(bucket.read('vault/config.json')).toEqual({ frameAncestors: ['https://a.example.com'] });
+  });
+});
@@ -0,0 +1,39 @@
+// Attempts at a contended object before giving up
+const MAX_ATTEMPTS = 10;
+
+// Backoff between attempts (ms): a random wait below min(cap, base * 2^attempt)
+const RETRY_BASE_MS = 20;
+const RETRY_MAX_MS = 1000;
+
+/**
+ * Read-modify-write a JSON object in R2 without losing concurrent updates.
+ * The write only goes through if the object is unchanged since it was read
+ * (same etag, or still missing); otherwise `update` runs again on the fresh
+ * value after a jittered backoff, so it must not have side effects. Return
+ * undefined from `update` to leave the object as it is.
+ * Resolves to the stored value (undefined if there is none).
+ */
+export async function updateJson<T>(
+  bucket: R2Bucket,
+  key: string,
+  update: (current: T | undefined) => T | undefined
+): Promise<T | undefined> {
+  for (let attempt = 1; ; attempt++) {
+    const obj = await bucket.get(key);
+    const current = obj ? await obj.json<T>() : undefined;
+
+    const next = update(current);
+    if (next === undefined) return current;
+
+    const written = await bucket.put(key, JSON.stringify(next), {
+      onlyIf: obj ? { etagMatches: obj.etag } : { etagDoesNotMatch: '*' },
+    });
+    if (written) return next;
+
+    if (attempt >= MAX_ATTEMPTS) {
+      throw new Error(`Gave up updating ${key} after ${MAX_ATTEMPTS} conflicting writes`);
+    }
+    const ceiling = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** attempt);
+    await new Promise((resolve) => setTimeout(resolve, Math.random() * ceiling));
+  }
+}
@@ -0,0 +1,163 @@
+import { generateNoteHash } from '@obsidian-note-share/shared';
+import { NoteIndex, NoteRedirect, RekeyResponse, StoredNote } from './types';
+import { updateVaultConfig } from './vault-config';
+import { moveRevisions } from './revisions';
+import { remapBacklinks } from './backlinks';
+import { remapCollections } from './collections';
+import { renderedKey } from './prerender';
+import { readIndex, remapIndex } from './note-index';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Move an R2 object to a new key (R2 has no rename)
+ */
+async function moveObject(bucket: R2Bucket, from: string, to: string): Promise<void> {
+  const obj = await bucket.get(from);
+  if (!obj) return;
+  await bucket.put(to, obj.body, {
+    httpMetadata: obj.httpMetadata,
+    customMetadata: obj.customMetadata,
+  });
+  await bucket.delete(from);
+}
+
+/**
+ * Change a vault's hash secret and re-key every indexed note:
+ * note JSON, images, stats, revisions, linked-note references, backlinks, collections and the index itself.
+ * Stored pages of moved notes are deleted.
+ * Safe to re-run after a partial failure - already moved notes are detected.
+ */
+export async function rekeyVault(
+  bucket: R2Bucket,
+  vault: string,
+  secret: string | null,
+  redirectDays: number
+): Promise<RekeyResponse> {
+  const index: NoteIndex = { notes: await readIndex(bucket, vault) };
+
+  // Compute every new hash first so linked-note references can be remapped
+  const hashMap = new Map<string, string>(); // `${titleSlug}:${oldHash}` -> newHash
+  const moves: RekeyResponse['notes'] = [];
+  for (const entry of index.notes) {
+    const newHash = await generateNoteHash(vault, entry.title, secret || undefined);
+    if (newHash === entry.hash) continue;
+    hashMap.set(`${entry.titleSlug}:${entry.hash}`, newHash);
+    moves.push({ titleSlug: entry.titleSlug, oldHash: entry.hash, newHash });
+  }
+
+  const expiresAt = new Date(Date.now() + redirectDays * DAY_MS).toISOString();
+
+  for (const { titleSlug, oldHash, newHash } of moves) {
+    const oldKey = `notes/${titleSlug}-${oldHash}.json`;
+    const newKey = `notes/${titleSlug}-${newHash}.json`;
+
+    const noteObj = await bucket.get(oldKey);
+    if (noteObj) {
+      const note: StoredNote = await noteObj.json();
+      note.hash = newHash;
+      // Image URLs embed the note hash
+      note.content = note.content.split(`/i/${oldHash}/`).join(`/i/${newHash}/`);
+      note.linkedNotes = note.linkedNotes.map((l) => ({
+        titleSlug: l.titleSlug,
+        hash: hashMap.get(`${l.titleSlug}:${l.hash}`) || l.hash,
+      }));
+      await bucket.put(newKey, JSON.stringify(note));
+      await bucket.delete(oldKey);
+    }
+
+    // Images and stats (daily rollups live under stats/{hash}/)
+    for (const folder of ['images', 'stats']) {
+      let cursor: string | undefined;
+      do {
+        const objects = await bucket.list({ prefix: `${folder}/${oldHash}/`, cursor });
+        await Promise.all(
+          objects.objects.map((obj) =>
+            moveObject(bucket, obj.key, `${folder}/${newHash}/${obj.key.slice(`${folder}/${oldHash}/`.length)}`)
+          )
+        );
+        cursor = objects.truncated ? objects.cursor : undefined;
+      } while (cursor);
+    }
+    await moveObject(bucket, `stats/${oldHash}.json`, `stats/${newHash}.json`);
+    await moveRevisions(bucket, titleSlug, oldHash, newHash);
+    // Stored pages link to the old hashes - the caller re-renders the vault
+    await bucket.delete(renderedKey(titleSlug, oldHash));
+
+    if (redirectDays > 0) {
+      const redirect: NoteRedirect = { vault, titleSlug, hash: newHash, expiresAt };
+      await bucket.put(`redirects/${titleSlug}-${oldHash}.json`, JSON.stringify(redirect));
+    }
+  }
+
+  // Linked notes that were not re-keyed may still reference moved notes
+  if (moves.length > 0) {
+    await Promise.all(
+      index.notes
+        .filter((entry) => !hashMap.has(`${entry.titleSlug}:${entry.hash}`))
+        .map(async (entry) => {
+          const key = `notes/${entry.titleSlug}-${entry.hash}.json`;
+          const noteObj = await bucket.get(key);
+          if (!noteObj) return;
+          const note: StoredNote = await noteObj.json();
+          if (!note.linkedNotes.some((l) => hashMap.has(`${l.titleSlug}:${l.hash}`))) return;
+          note.linkedNotes = note.linkedNotes.map((l) => ({
+            titleSlug: l.titleSlug,
+            hash: hashMap.get(`${l.titleSlug}:${l.hash}`) || l.hash,
+          }));
+          await bucket.put(key, JSON.stringify(note));
+        })
+    );
+  }
+
+  if (moves.length > 0) await remapIndex(bucket, vault, hashMap);
+  if (moves.length > 0) await remapBacklinks(bucket, vault, hashMap);
+  // Collection hashes depend on the secret even when no note moved
+  await remapCollections(bucket, vault, secret, hashMap);
+
+  await updateVaultConfig(bucket, vault, { hashSecret: secret || undefined });
+
+  return { migrated: moves.length, notes: moves };
+}
+
+/**
+ * Look up a live redirect for a re-keyed note URL
+ */
+export async function getRedirect(
+  bucket: R2Bucket,
+  vault: string,
+  titleSlug: string,
+  hash: string
+): Promise<NoteRedirect | undefined> {
+  const obj = await bucket.get(`redirects/${titleSlug}-${hash}.json`);
+  if (!obj) return undefined;
+
+  const redirect: NoteRedirect = await obj.json();
+  if (redirect.vault !== vault || new Date(redirect.expiresAt) < new Date()) return undefined;
+  return redirect;
+}
+
+/**
+ * Delete expired redirects (called from the scheduled cleanup)
+ */
+export async function cleanupExpiredRedirects(bucket: R2Bucket): Promise<number> {
+  const now = new Date();
+  let cursor: string | undefined;
+  let deleted = 0;
+
+  do {
+    const list = await bucket.list({ prefix: 'redirects/', cursor });
+    for (const object of list.objects) {
+      const obj = await bucket.get(object.key);
+      if (!obj) continue;
+      const redirect: NoteRedirect = await obj.json();
+      if (new Date(redirect.expiresAt) < now) {
+        await bucket.delete(object.key);
+        deleted++;
+      }
+    }
+    cursor = list.truncated ? list.cursor : undefined;
+  } while (cursor);
+
+  return deleted;
+}
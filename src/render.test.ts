@@ -0,0 +1,104 @@
+/// <reference types="vite/client" />
+import { describe, expect, it } from 'vitest';
+import { renderNote } from './render';
+import { StoredNote } from './types';
+
+// Tricky notes from render-corpus/, keyed by path
+const corpus = import.meta.glob<string>('./render-corpus/*.md', { query: '?raw', import: 'default', eager: true });
+
+function render(name: string): string {
+  const content = corpus[`./render-corpus/${name}.md`];
+  if (content === undefined) throw new Error(`No corpus note ${name}.md`);
+
+  const note: StoredNote = {
+    vault: 'test-vault',
+    titleSlug: name,
+    hash: '0123456789abcdef',
+    title: name,
+    content,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    linkedNotes: [],
+  };
+  return renderNote(note, undefined, '/g/test-vault', { nonce: 'test-nonce' });
+}
+
+// The note's rendered markdown, without the page around it
+function body(html: string): string {
+  return html.slice(html.indexOf('<div class="inline-title">'), html.indexOf('<script'));
+}
+
+function count(text: string, search: string): number {
+  return text.split(search).length - 1;
+}
+
+describe('render corpus', () => {
+  it('covers every note in render-corpus/', () => {
+    expect(Object.keys(corpus).sort()).toEqual([
+      './render-corpus/currency.md',
+      './render-corpus/math-in-code.md',
+      './render-corpus/mermaid-html.md',
+      './render-corpus/nested-callouts-code.md',
+    ]);
+  });
+
+  it('leaves dollar signs in code alone and renders math around it', () => {
+    const html = render('math-in-code');
+    const content = body(html);
+
+    expect(content).toContain('<code>echo $HOME and $PATH</code>');
+    expect(content).toContain('price=$((a + b))');
+    expect(content).toContain('&quot;$$ is the shell PID&quot;');
+
+    const code = content.slice(content.indexOf('<pre>'), content.indexOf('</pre>'));
+    expect(code).not.toContain('katex');
+
+    expect(count(content, '<span class="katex">')).toBe(2);
+    expect(count(content, '<span class="katex-display">')).toBe(1);
+    expect(html).toContain('katex.min.css');
+  });
+
+  it('does not treat prices as math', () => {
+    const content = body(render('currency'));
+
+    expect(content).toContain('<p>The plan costs $5 per month, or $50 per year.</p>');
+    expect(content).toContain('<p>Tickets were $20, $30 and $45 – still cheaper than the $100 option.</p>');
+    expect(count(content, '<span class="katex">')).toBe(1);
+    expect(content).toContain(' costs $3.</p>');
+  });
+
+  it('renders callouts nested in callouts, with code inside', () => {
+    const content = body(render('nested-callouts-code'));
+
+    const outer = content.indexOf('<div class="callout" data-callout="note">');
+    const inner = content.indexOf('<div class="callout" data-callout="warning" data-callout-fold="-">');
+    const code = content.indexOf('<span class="hljs-keyword">const</span> answer');
+    const after = content.indexOf('<p>Back in the outer callout.</p>');
+    expect(outer).toBeGreaterThanOrEqual(0);
+    expect(inner).toBeGreaterThan(outer);
+    expect(code).toBeGreaterThan(inner);
+    expect(after).toBeGreaterThan(code);
+    expect(content).not.toContain('[!warning]');
+    expect(content).not.toContain('<blockquote>');
+
+    expect(content).toContain('<mark>highlight</mark>');
+    expect(content).toContain('<span class="tag">#tag</span>');
+  });
+
+  it('keeps mermaid source escaped next to raw HTML', () => {
+    const html = render('mermaid-html');
+    const content = body(html);
+
+    expect(content).toContain('<summary>Raw HTML before the diagram</summary>');
+    expect(content).toContain('<p>Some <kbd>Ctrl</kbd> + <kbd>C</kbd> text.</p>');
+    expect(content).toContain('<div class="after">HTML after the diagram</div>');
+
+    const diagram = content.slice(content.indexOf('<div class="mermaid-diagram">'), content.indexOf('<div class="after">'));
+    expect(diagram).toContain('A[&quot;&lt;b&gt;Start&lt;/b&gt;&quot;] --&gt; B{Choice}');
+    expect(diagram).not.toContain('<b>');
+    expect(diagram).not.toContain('hljs');
+
+    expect(html).toContain('<script type="module" nonce="test-nonce">');
+    expect(html).not.toContain('katex.min.css');
+  });
+});
@@ -1,19 +1,152 @@
-import { Marked } from 'marked';
-import { StoredNote, ThemeSettings, DualThemeSettings } from './types';
+import { Marked, RendererExtension, Token, TokenizerAndRendererExtension, Tokens } from 'marked';
+import { slugify, stripComments } from '@obsidian-note-share/shared';
+import { StoredNote, ThemeSettings, DualThemeSettings, HtmlPolicy, NoteIndex, NoteLink, LinkedMention, Collection, SharedCanvasNode } from './types';
+import type { DiffLine } from './diff';
+import { parseFrontmatter, getShareOptions, getVisibleProperties } from './frontmatter';
+import { KATEX_CSS_URL, extractMath, restoreMath, stripMathPlaceholders } from './math';
+import { MERMAID_CLASS, mermaidBlock, mermaidScript } from './mermaid';
+import { highlightCode } from './highlight';
+import { sanitizeHtml } from './sanitize';
+import { LinkResolver, createLinkResolver, headingId, linkFragment, parseLinkTarget } from './links';
+import { CANVAS_CSS, CanvasBounds, canvasBounds, canvasColor, canvasScript, nodeStyle, parseCanvas, renderCanvasEdges } from './canvas';
+
+// Pre-compiled regex patterns for better performance
+const CALLOUT_REGEX = /^> \[!(\w+)\]([+-]?)[ ]*(.*)?$\n((?:^>.*$\n?)*)/gm;
+const HIGHLIGHT_REGEX = /^==([^=]+)==/;
+const TAG_REGEX = /^#([a-zA-Z][a-zA-Z0-9_/-]*)/;
+const TAG_START_REGEX = /(?<!\S)#[a-zA-Z]/;
+const INTERNAL_LINK_REGEX = /^\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/;
+const BLOCK_ID_REGEX = /^[ \t]*\^([a-zA-Z0-9-]+)[ \t]*$/;
+const BLOCK_ID_START_REGEX = /[ \t]*\^[a-zA-Z0-9-]+[ \t]*$/;
+const INTERNAL_LINK_GLOBAL_REGEX = /!?\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g;
+
+// Longest "Linked mentions" snippet, in characters
+const SNIPPET_LENGTH = 200;
+
+// Collection navigation is a fixed sidebar above this width, a collapsed menu below it
+const NAV_SIDEBAR_MIN_WIDTH = 1300;
+
+// Canvas file cards shown as media rather than as a note
+const CANVAS_MEDIA_REGEX = /\.(png|jpe?g|gif|webp|svg|bmp|ico|mp4|mov|webm|m4v)$/i;
+
+interface InternalLinkToken extends Tokens.Generic {
+  type: 'internalLink';
+  target: string;
+  display: string;
+  href?: string; // set by resolveInternalLinks when the target was shared
+}
+
+type AnchoredHeading = Tokens.Heading & { id?: string }; // id set by assignAnchors
+
+
+/*
+ * Obsidian inline syntax as marked extensions. Being part of the inline lexer,
+ * they never fire inside code spans, fenced code, HTML blocks or after a backslash escape.
+ */
+
+// ==highlight==
+const highlightExtension: TokenizerAndRendererExtension = {
+  name: 'highlight',
+  level: 'inline',
+  start: (src) => src.indexOf('=='),
+  tokenizer(src) {
+    const match = HIGHLIGHT_REGEX.exec(src);
+    if (!match) return undefined;
+    return { type: 'highlight', raw: match[0], tokens: this.lexer.inlineTokens(match[1]) };
+  },
+  renderer(token) {
+    return `<mark>${this.parser.parseInline(token.tokens || [])}</mark>`;
+  },
+};
+
+// #tag (only at the start of a word, so URL fragments and C#-style text are left alone)
+const tagExtension: TokenizerAndRendererExtension = {
+  name: 'tag',
+  level: 'inline',
+  start: (src) => src.match(TAG_START_REGEX)?.index,
+  tokenizer(src, tokens) {
+    const previous = tokens[tokens.length - 1];
+    if (previous && !/\s$/.test(previous.raw)) return undefined;
+    const match = TAG_REGEX.exec(src);
+    if (!match) return undefined;
+    return { type: 'tag', raw: match[0], name: match[1] };
+  },
+  renderer(token) {
+    return `<span class="tag">#${escapeHtml(token.name)}</span>`;
+  },
+};
+
+// [[Note]], [[Note|display text]], [[Note#Heading]], [[Note#^block]] and [[#Heading]]
+const internalLinkExtension: TokenizerAndRendererExtension = {
+  name: 'internalLink',
+  level: 'inline',
+  start: (src) => src.indexOf('[['),
+  tokenizer(src) {
+    const match = INTERNAL_LINK_REGEX.exec(src);
+    if (!match) return undefined;
+    const token: InternalLinkToken = {
+      type: 'internalLink',
+      raw: match[0],
+      target: match[1].trim(),
+      display: match[2]?.trim() || defaultLinkText(match[1]),
+    };
+    return token;
+  },
+  renderer(token) {
+    const { href, display } = token as InternalLinkToken;
+    if (href) {
+      return `<a href="${escapeHtml(href)}" class="internal-link">${escapeHtml(display)}</a>`;
+    }
+    return `<span class="internal-link unresolved">${escapeHtml(display)}</span>`;
+  },
+};
+
+// Block reference target: "text ^abc123" at the end of a paragraph or list item.
+// Rendered as an anchor, moved to the start of the block by assignAnchors.
+const blockIdExtension: TokenizerAndRendererExtension = {
+  name: 'blockId',
+  level: 'inline',
+  start: (src) => src.match(BLOCK_ID_START_REGEX)?.index,
+  tokenizer(src) {
+    const match = BLOCK_ID_REGEX.exec(src);
+    if (!match) return undefined;
+    return { type: 'blockId', raw: match[0], id: match[1] };
+  },
+  renderer(token) {
+    return `<span class="block-anchor" id="^${escapeHtml(token.id)}"></span>`;
+  },
+};
+
+// Headings carry the ids assigned by assignAnchors
+const headingExtension: RendererExtension = {
+  name: 'heading',
+  renderer(token) {
+    const id = token.id ? ` id="${escapeHtml(token.id)}"` : '';
+    return `<h${token.depth}${id}>${this.parser.parseInline(token.tokens || [])}</h${token.depth}>\n`;
+  },
+};
 
 const marked = new Marked({
   gfm: true,
   breaks: true,
+  extensions: [highlightExtension, tagExtension, internalLinkExtension, blockIdExtension, headingExtension],
+  renderer: {
+    // GFM task list items: - [ ] / - [x]
+    checkbox(checked) {
+      return `<input type="checkbox"${checked ? ' checked' : ''} disabled>`;
+    },
+    listitem(text, task) {
+      return task ? `<li class="task-list-item">${text}</li>\n` : false;
+    },
+    // Mermaid fences become diagrams in the browser; other code is highlighted server-side
+    code(code, infostring) {
+      const lang = (infostring || '').match(/^\S*/)?.[0].toLowerCase() || '';
+      if (lang === 'mermaid') return mermaidBlock(escapeHtml(code));
+      return highlightCode(code, lang, escapeHtml);
+    },
+  },
 });
 
-// Pre-compiled regex patterns for better performance
-const CALLOUT_REGEX = /^> \[!(\w+)\]([+-]?)[ ]*(.*)?$\n((?:^>.*$\n?)*)/gm;
-const HIGHLIGHT_REGEX = /==([^=]+)==/g;
-const TAG_REGEX = /(?<!\S)#([a-zA-Z][a-zA-Z0-9_/-]*)/g;
-const CHECKBOX_CHECKED_REGEX = /^(\s*)- \[x\]/gm;
-const CHECKBOX_UNCHECKED_REGEX = /^(\s*)- \[ \]/gm;
-const INTERNAL_LINK_REGEX = /\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g;
-
 // Default themes
 const DEFAULT_DARK: ThemeSettings = {
   backgroundPrimary: '#1e1e1e',
@@ -37,34 +170,54 @@ const DEFAULT_LIGHT: ThemeSettings = {
   fontSize: 16,
 };
 
-export function renderNote(note: StoredNote, theme: DualThemeSettings | undefined, baseUrl: string): string {
+export interface RenderOptions {
+  // Set when rendering an archived revision instead of the current note
+  revision?: { number: number; latest: number };
+  // Vault overrides for the HTML sanitizer
+  html?: HtmlPolicy;
+  // CSP nonce for the page's inline scripts
+  nonce?: string;
+  // Vault index, so wikilinks resolve to any shared note (not just linkedNotes)
+  index?: NoteIndex['notes'];
+  // Shared notes linking here, listed under the note
+  mentions?: LinkedMention[];
+  // Shared folder the note belongs to, shown as a navigation sidebar
+  collection?: Collection;
+}
+
+export function renderNote(
+  note: StoredNote,
+  theme: DualThemeSettings | undefined,
+  baseUrl: string,
+  options: RenderOptions = {}
+): string {
   // Get light and dark themes with fallbacks
   const dark = theme?.dark || DEFAULT_DARK;
   const light = theme?.light || DEFAULT_LIGHT;
 
-  // Pre-process Obsidian-specific syntax
-  let content = note.content;
-  content = processCallouts(content);
-  content = processHighlights(content);
-  content = processTags(content);
-  content = processCheckboxes(content);
-  content = processInternalLinks(content, baseUrl, note.linkedNotes);
+  // Frontmatter is rendered as a properties table, never as markdown
+  const frontmatter = parseFrontmatter(note.content);
+  const shareOptions = getShareOptions(frontmatter.data);
+  const title = shareOptions.title || note.title;
+  const properties = renderProperties(getVisibleProperties(frontmatter.data, shareOptions));
 
-  // Parse markdown and add lazy loading to images
-  const html = (marked.parse(content) as string)
-    .replace(/<img /g, '<img loading="lazy" ');
+  const { html, parsed, hasMath } = renderMarkdown(
+    frontmatter.body,
+    baseUrl,
+    createLinkResolver(note.linkedNotes, options.index),
+    options.html
+  );
 
   // Pre-compute theme vars (used multiple times in CSS)
   const darkVars = generateThemeVars(dark, true);
   const lightVars = generateThemeVars(light, false);
   const styles = generateStylesWithVars(darkVars, lightVars);
 
-  // Generate description from processed content (strip HTML tags and normalize whitespace)
-  const description = html
-    .replace(/<[^>]+>/g, '')
-    .replace(/\s+/g, ' ')
-    .trim()
-    .slice(0, 160);
+  // Use share-description, else generate from processed content
+  const description = shareOptions.description || plainDescription(parsed);
+  const noindex = shareOptions.noindex || !!options.revision;
+  const hasMermaid = html.includes(`class="${MERMAID_CLASS}"`);
+  const nonceAttr = options.nonce ? ` nonce="${escapeHtml(options.nonce)}"` : '';
 
   return `<!DOCTYPE html>
 <html lang="en">
@@ -72,23 +225,200 @@ export function renderNote(note: StoredNote, theme: DualThemeSettings | undefine
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
   <meta name="description" content="${escapeHtml(description)}">
-  <meta property="og:title" content="${escapeHtml(note.title)}">
+  <meta property="og:title" content="${escapeHtml(title)}">
   <meta property="og:description" content="${escapeHtml(description)}">
   <meta property="og:type" content="article">
-  <title>${escapeHtml(note.title)}</title>
+  <title>${escapeHtml(title)}</title>
+  ${noindex ? '<meta name="robots" content="noindex">' : ''}
+  ${hasMath ? `<link rel="stylesheet" href="${KATEX_CSS_URL}">` : ''}
   <style>${styles}</style>
 </head>
 <body>
   <button id="theme-toggle" aria-label="Toggle theme">
     <span class="sun">☀️</span><span class="moon">🌙</span>
   </button>
-  <div class="markdown-preview-view markdown-rendered">
+  ${options.collection ? renderCollectionNav(options.collection, note, baseUrl) : ''}
+  <div class="markdown-preview-view markdown-rendered${shareOptions.lineNumbers ? ' show-line-numbers' : ''}">
     <div class="markdown-preview-sizer markdown-preview-section">
-      <div class="inline-title">${escapeHtml(note.title)}</div>
+      ${options.revision ? renderRevisionBanner(note, baseUrl, options.revision) : ''}
+      <div class="inline-title">${escapeHtml(title)}</div>
+      ${properties}
       ${html}
+      ${options.mentions?.length ? renderLinkedMentions(options.mentions, baseUrl) : ''}
+    </div>
+  </div>
+  ${pageScript(note, nonceAttr)}
+  ${hasMermaid ? mermaidScript(nonceAttr) : ''}
+</body>
+</html>`;
+}
+
+/**
+ * Interactive canvas page: groups, cards and edges on a pannable, zoomable surface.
+ * Text, note and media cards carry markdown and go through the note pipeline.
+ */
+export function renderCanvas(
+  note: StoredNote,
+  theme: DualThemeSettings | undefined,
+  baseUrl: string,
+  options: RenderOptions = {}
+): string {
+  const canvas = parseCanvas(note.content);
+  const bounds = canvasBounds(canvas.nodes);
+  const resolve = createLinkResolver(note.linkedNotes, options.index);
+  const title = note.title.replace(/\.canvas$/i, '');
+
+  let hasMath = false;
+  const parsedCards: string[] = [];
+  const markdown = (text: string) => {
+    const rendered = renderMarkdown(text, baseUrl, resolve, options.html);
+    hasMath ||= rendered.hasMath;
+    parsedCards.push(rendered.parsed);
+    return rendered.html;
+  };
+
+  // Groups sit underneath (largest first), edges between groups and cards
+  const groups = canvas.nodes
+    .filter((n) => n.type === 'group')
+    .sort((a, b) => b.width * b.height - a.width * a.height)
+    .map((n) => renderCanvasNode(n, bounds, baseUrl, resolve, markdown));
+  const cards = canvas.nodes
+    .filter((n) => n.type !== 'group')
+    .map((n) => renderCanvasNode(n, bounds, baseUrl, resolve, markdown));
+  const edges = renderCanvasEdges(canvas, bounds, escapeHtml);
+
+  const styles = generateStylesWithVars(
+    generateThemeVars(theme?.dark || DEFAULT_DARK, true),
+    generateThemeVars(theme?.light || DEFAULT_LIGHT, false)
+  );
+  const description = plainDescription(parsedCards.join(' '));
+  const hasMermaid = cards.some((card) => card.includes(`class="${MERMAID_CLASS}"`));
+  const nonceAttr = options.nonce ? ` nonce="${escapeHtml(options.nonce)}"` : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="description" content="${escapeHtml(description)}">
+  <meta property="og:title" content="${escapeHtml(title)}">
+  <meta property="og:description" content="${escapeHtml(description)}">
+  <meta property="og:type" content="article">
+  <title>${escapeHtml(title)}</title>
+  ${options.revision ? '<meta name="robots" content="noindex">' : ''}
+  ${hasMath ? `<link rel="stylesheet" href="${KATEX_CSS_URL}">` : ''}
+  <style>${styles}${CANVAS_CSS}</style>
+</head>
+<body>
+  <button id="theme-toggle" aria-label="Toggle theme">
+    <span class="sun">☀️</span><span class="moon">🌙</span>
+  </button>
+  <div id="canvas-viewport">
+    <div id="canvas-world" class="markdown-rendered" style="width:${bounds.width}px;height:${bounds.height}px">
+      ${groups.join('')}
+      ${edges.svg}
+      ${cards.join('')}
+      ${edges.labels}
     </div>
   </div>
-  <script>
+  <div class="canvas-header">
+    <div class="inline-title">${escapeHtml(title)}</div>
+    ${options.revision ? renderRevisionBanner(note, baseUrl, options.revision) : ''}
+    <div class="canvas-controls">
+      <button id="canvas-zoom-out" aria-label="Zoom out">−</button>
+      <button id="canvas-zoom-fit" aria-label="Fit to screen">Fit</button>
+      <button id="canvas-zoom-in" aria-label="Zoom in">+</button>
+    </div>
+  </div>
+  ${pageScript(note, nonceAttr)}
+  ${canvasScript(nonceAttr, bounds)}
+  ${hasMermaid ? mermaidScript(nonceAttr) : ''}
+</body>
+</html>`;
+}
+
+function renderCanvasNode(
+  node: SharedCanvasNode,
+  bounds: CanvasBounds,
+  baseUrl: string,
+  resolve: LinkResolver,
+  markdown: (text: string) => string
+): string {
+  const style = nodeStyle(node, bounds);
+  const colorClass = canvasColor(node.color) ? ' has-color' : '';
+
+  if (node.type === 'group') {
+    const label = node.label ? `<div class="canvas-node-label">${escapeHtml(node.label)}</div>` : '';
+    return `<div class="canvas-node canvas-group${colorClass}" style="${style}">${label}</div>`;
+  }
+
+  if (node.type === 'link') {
+    const url = node.url && /^https?:\/\//i.test(node.url) ? node.url : undefined;
+    const link = url ? `<a href="${escapeHtml(url)}" class="external-link" rel="noopener" target="_blank">${escapeHtml(url)}</a>` : '';
+    return `<div class="canvas-node canvas-card canvas-card-link${colorClass}" style="${style}"><div class="canvas-card-content">${link}</div></div>`;
+  }
+
+  // File cards are labelled with the note (linked when shared) or file name
+  let label = '';
+  let kind = '';
+  if (node.type === 'file' && node.file) {
+    const target = resolve(node.file);
+    label = target
+      ? `<a href="${escapeHtml(`${baseUrl}/${target.titleSlug}/${target.hash}`)}" class="internal-link">${escapeHtml(node.file)}</a>`
+      : escapeHtml(node.file);
+    kind = CANVAS_MEDIA_REGEX.test(node.file) ? ' canvas-card-media' : ' canvas-card-file';
+  }
+
+  return `<div class="canvas-node canvas-card${kind}${colorClass}" style="${style}">
+      ${label ? `<div class="canvas-node-label">${label}</div>` : ''}
+      <div class="canvas-card-content">${node.text ? markdown(node.text) : ''}</div>
+    </div>`;
+}
+
+/**
+ * Markdown to sanitized HTML: callouts, math, heading/block anchors and wikilinks.
+ * `parsed` is the sanitized HTML before math is restored (for descriptions).
+ */
+function renderMarkdown(
+  markdown: string,
+  baseUrl: string,
+  resolve: LinkResolver,
+  policy?: HtmlPolicy
+): { html: string; parsed: string; hasMath: boolean } {
+  // Pre-process Obsidian-specific syntax
+  // (comments are already stripped by the plugin - this is defense in depth)
+  let content = stripComments(markdown);
+  content = processCallouts(content);
+  // Math is swapped for placeholders so highlight/tag/emphasis parsing can't mangle it
+  const math = extractMath(content);
+
+  // Parse markdown (highlights, tags and wikilinks via the extensions above), strip
+  // anything outside the HTML allowlist and add lazy loading to images.
+  // KaTeX output is trusted and restored after sanitizing.
+  const tokens = marked.lexer(math.content);
+  assignAnchors(tokens);
+  resolveInternalLinks(tokens, baseUrl, resolve);
+  const parsed = sanitizeHtml(marked.parser(tokens), policy)
+    .replace(/<img /g, '<img loading="lazy" ');
+  return { html: restoreMath(parsed, math.spans), parsed, hasMath: math.spans.length > 0 };
+}
+
+/**
+ * Page description from rendered content (tags stripped, whitespace normalized)
+ */
+function plainDescription(parsed: string): string {
+  return stripMathPlaceholders(parsed)
+    .replace(/<[^>]+>/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 160);
+}
+
+/**
+ * Theme toggle, callout folding, copy buttons and the view and read beacons
+ */
+function pageScript(note: StoredNote, nonceAttr: string): string {
+  return `<script${nonceAttr}>
     // Theme toggle - cycles: system -> opposite -> system
     const toggle = document.getElementById('theme-toggle');
     const root = document.documentElement;
@@ -107,6 +437,10 @@ export function renderNote(note: StoredNote, theme: DualThemeSettings | undefine
       // Otherwise, we just removed the override (back to system)
     };
 
+    // Collection navigation starts open when it fits beside the note
+    const nav = document.getElementById('collection-nav');
+    if (nav && window.matchMedia('(min-width: ${NAV_SIDEBAR_MIN_WIDTH}px)').matches) nav.open = true;
+
     // Interactive callout folding
     document.querySelectorAll('.callout[data-callout-fold]').forEach(c => {
       const title = c.querySelector('.callout-title');
@@ -119,20 +453,282 @@ export function renderNote(note: StoredNote, theme: DualThemeSettings | undefine
       }
     });
 
-    // View tracking beacon (fires once per page load)
+    // Copy buttons on code blocks
+    document.querySelectorAll('.copy-code-button').forEach(btn => {
+      btn.onclick = async () => {
+        const code = btn.parentElement.querySelector('code');
+        try {
+          await navigator.clipboard.writeText(code.textContent);
+          btn.textContent = 'Copied';
+        } catch (e) {
+          btn.textContent = 'Failed';
+        }
+        setTimeout(() => { btn.textContent = 'Copy'; }, 1500);
+      };
+    });
+
+    // View tracking beacon (fires once per page load), with the referring site's domain only
     try {
-      fetch(${JSON.stringify(`/api/track/${note.hash}`)}, { method: 'POST', keepalive: true });
+      const referrer = document.referrer ? new URL(document.referrer).hostname : '';
+      fetch(${JSON.stringify(`/api/track/${note.hash}?vault=${encodeURIComponent(note.vault)}`)}, {
+        method: 'POST',
+        keepalive: true,
+        body: JSON.stringify({ referrer }),
+      });
     } catch (e) {}
-  </script>
+
+    // Read beacon: how long the page was visible and how far it was scrolled
+    // (canvases pan instead), sent once when the reader first leaves it
+    const reportDepth = ${note.kind !== 'canvas'};
+    let visibleSince = document.visibilityState === 'visible' ? Date.now() : 0;
+    let maxDepth = 0;
+    let readSent = false;
+    const measureDepth = () => {
+      const scrollable = document.documentElement.scrollHeight - window.innerHeight;
+      maxDepth = Math.max(maxDepth, scrollable > 0 ? (window.scrollY / scrollable) * 100 : 100);
+    };
+    if (reportDepth) {
+      measureDepth();
+      window.addEventListener('scroll', measureDepth, { passive: true });
+    }
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible') {
+        visibleSince = visibleSince || Date.now();
+        return;
+      }
+      if (readSent || !visibleSince) return;
+      readSent = true;
+      const report = { seconds: (Date.now() - visibleSince) / 1000 };
+      if (reportDepth) report.depth = maxDepth;
+      navigator.sendBeacon(${JSON.stringify(`/api/track/${note.hash}/read`)}, JSON.stringify(report));
+    });
+  </script>`;
+}
+
+export function renderUnlockPage(note: StoredNote, theme: DualThemeSettings | undefined, error?: string): string {
+  const darkVars = generateThemeVars(theme?.dark || DEFAULT_DARK, true);
+  const lightVars = generateThemeVars(theme?.light || DEFAULT_LIGHT, false);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="noindex">
+  <title>${escapeHtml(note.title)}</title>
+  <style>
+    :root { ${darkVars} }
+    @media (prefers-color-scheme: light) { :root { ${lightVars} } }
+    body {
+      margin: 0;
+      padding: 40px 20px;
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;
+      font-size: var(--font-text-size);
+      background: var(--background-primary);
+      color: var(--text-normal);
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      min-height: calc(100vh - 80px);
+    }
+    form {
+      width: 100%;
+      max-width: 320px;
+      text-align: center;
+    }
+    h1 { font-size: 1.4em; margin: 0 0 0.3em; }
+    p { color: var(--text-muted); margin: 0 0 1.5em; }
+    input, button {
+      width: 100%;
+      box-sizing: border-box;
+      padding: 10px 12px;
+      border-radius: 6px;
+      font-size: 1em;
+    }
+    input {
+      border: 1px solid var(--background-modifier-border);
+      background: var(--background-secondary);
+      color: var(--text-normal);
+      margin-bottom: 10px;
+    }
+    button {
+      border: none;
+      background: var(--interactive-accent);
+      color: #fff;
+      cursor: pointer;
+    }
+    .error { color: #ff5252; margin: 0 0 1em; }
+  </style>
+</head>
+<body>
+  <form method="POST">
+    <h1>🔒 ${escapeHtml(note.title)}</h1>
+    <p>This note is password protected.</p>
+    ${error ? `<div class="error">${escapeHtml(error)}</div>` : ''}
+    <input type="password" name="password" placeholder="Password" autocomplete="current-password" autofocus required>
+    <button type="submit">Unlock</button>
+  </form>
 </body>
 </html>`;
 }
 
-function processCallouts(content: string): string {
+function renderProperties(properties: [string, unknown][]): string {
+  if (properties.length === 0) return '';
+
+  const rows = properties
+    .map(([key, value]) => `<tr><th>${escapeHtml(key)}</th><td>${renderPropertyValue(key, value)}</td></tr>`)
+    .join('');
+
+  return `<table class="metadata-properties">${rows}</table>`;
+}
+
+function renderPropertyValue(key: string, value: unknown): string {
+  if (value === null || value === undefined) return '';
+
+  if (Array.isArray(value)) {
+    return value.map((v) => renderPropertyValue(key, v)).join(' ');
+  }
+
+  if (typeof value === 'boolean') {
+    return `<input type="checkbox"${value ? ' checked' : ''} disabled>`;
+  }
+
+  if (value instanceof Date) {
+    return escapeHtml(value.toISOString().slice(0, 10));
+  }
+
+  if (typeof value === 'object') {
+    return `<code>${escapeHtml(JSON.stringify(value))}</code>`;
+  }
+
+  const text = String(value);
+  if (key === 'tags' || key === 'tag') {
+    return `<span class="tag">#${escapeHtml(text.replace(/^#/, ''))}</span>`;
+  }
+  if (/^https?:\/\/\S+$/.test(text)) {
+    return `<a href="${escapeHtml(text)}" rel="noopener">${escapeHtml(text)}</a>`;
+  }
+  return `<span class="metadata-property-value">${escapeHtml(text)}</span>`;
+}
+
+function renderRevisionBanner(
+  note: StoredNote,
+  baseUrl: string,
+  revision: { number: number; latest: number }
+): string {
+  const noteUrl = `${baseUrl}/${note.titleSlug}/${note.hash}`;
+  const updated = new Date(note.updatedAt).toUTCString();
+  const compare = revision.number === revision.latest
+    ? ''
+    : ` · <a href="${noteUrl}/diff/${revision.number}/${revision.latest}">Compare with latest</a>`;
+
+  return `<div class="revision-banner">Revision ${revision.number} of ${revision.latest} · ${escapeHtml(updated)} · <a href="${noteUrl}">View latest</a>${compare}</div>`;
+}
+
+// Unchanged lines shown around each change in the diff view
+const DIFF_CONTEXT = 3;
+
+export function renderDiffPage(
+  note: StoredNote,
+  theme: DualThemeSettings | undefined,
+  from: number,
+  to: number,
+  lines: DiffLine[]
+): string {
+  const darkVars = generateThemeVars(theme?.dark || DEFAULT_DARK, true);
+  const lightVars = generateThemeVars(theme?.light || DEFAULT_LIGHT, false);
+  const noteUrl = `/g/${note.vault}/${note.titleSlug}/${note.hash}`;
+
+  // Keep changed lines plus a little context; collapse long unchanged runs
+  const keep = lines.map(() => false);
+  lines.forEach((line, i) => {
+    if (line.type === 'same') return;
+    for (let j = Math.max(0, i - DIFF_CONTEXT); j <= Math.min(lines.length - 1, i + DIFF_CONTEXT); j++) {
+      keep[j] = true;
+    }
+  });
+
+  let added = 0;
+  let removed = 0;
+  const rows: string[] = [];
+  let skipped = 0;
+  lines.forEach((line, i) => {
+    if (line.type === 'add') added++;
+    if (line.type === 'remove') removed++;
+    if (!keep[i]) {
+      skipped++;
+      return;
+    }
+    if (skipped > 0) {
+      rows.push(`<div class="diff-skip">⋯ ${skipped} unchanged line${skipped === 1 ? '' : 's'}</div>`);
+      skipped = 0;
+    }
+    const marker = line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' ';
+    rows.push(`<div class="diff-line diff-${line.type}"><span class="diff-marker">${marker}</span>${escapeHtml(line.text) || ' '}</div>`);
+  });
+  if (skipped > 0 && rows.length > 0) {
+    rows.push(`<div class="diff-skip">⋯ ${skipped} unchanged line${skipped === 1 ? '' : 's'}</div>`);
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="noindex">
+  <title>${escapeHtml(note.title)} · revision ${from} → ${to}</title>
+  <style>
+    :root { ${darkVars} }
+    @media (prefers-color-scheme: light) { :root { ${lightVars} } }
+    body {
+      margin: 0;
+      padding: 20px 30px 60px;
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;
+      font-size: var(--font-text-size);
+      background: var(--background-primary);
+      color: var(--text-normal);
+    }
+    main { max-width: 900px; margin: 0 auto; }
+    h1 { font-size: 1.6em; margin: 0 0 0.2em; }
+    .meta { color: var(--text-muted); margin-bottom: 1.5em; }
+    a { color: var(--text-accent); text-decoration: none; }
+    a:hover { text-decoration: underline; }
+    .diff {
+      font-family: 'SF Mono', 'Fira Code', 'Monaco', 'Menlo', monospace;
+      font-size: 0.85em;
+      background: var(--code-background);
+      border: 1px solid var(--background-modifier-border);
+      border-radius: 6px;
+      overflow-x: auto;
+    }
+    .diff-line { white-space: pre-wrap; padding: 0 12px; }
+    .diff-marker { display: inline-block; width: 1.5em; color: var(--text-muted); user-select: none; }
+    .diff-add { background: rgba(0, 200, 83, 0.15); }
+    .diff-remove { background: rgba(255, 82, 82, 0.15); }
+    .diff-skip { padding: 4px 12px; color: var(--text-muted); background: var(--background-secondary); }
+    .added { color: #00c853; }
+    .removed { color: #ff5252; }
+  </style>
+</head>
+<body>
+  <main>
+    <h1>${escapeHtml(note.title)}</h1>
+    <div class="meta">
+      <a href="${noteUrl}/rev/${from}">Revision ${from}</a> → <a href="${noteUrl}/rev/${to}">Revision ${to}</a>
+      · <span class="added">+${added}</span> <span class="removed">-${removed}</span>
+      · <a href="${noteUrl}">View latest</a>
+    </div>
+    <div class="diff">${rows.length > 0 ? rows.join('') : '<div class="diff-skip">No changes</div>'}</div>
+  </main>
+</body>
+</html>`;
+}
+
+function processCallouts(markdown: string): string {
   // Reset regex lastIndex for global patterns
   CALLOUT_REGEX.lastIndex = 0;
 
-  return content.replace(CALLOUT_REGEX, (match, type, fold, title, body) => {
+  return markdown.replace(CALLOUT_REGEX, (match, type, fold, title, body) => {
     const calloutType = type.toLowerCase();
     const calloutTitle = title?.trim() || type.charAt(0).toUpperCase() + type.slice(1);
     const calloutBody = body
@@ -140,6 +736,8 @@ function processCallouts(content: string): string {
       .map((line: string) => line.replace(/^> ?/, ''))
       .join('\n')
       .trim();
+    // Nested callouts (> > [!type]) are callouts at the start of a line once unquoted
+    const content = processCallouts(calloutBody);
 
     const foldable = fold === '+' || fold === '-';
     const collapsed = fold === '-';
@@ -151,10 +749,12 @@ function processCallouts(content: string): string {
 </div>
 <div class="callout-content"${collapsed ? ' style="display:none"' : ''}>
 
-${calloutBody}
+${content}
 
 </div>
-</div>`;
+</div>
+
+`;
   });
 }
 
@@ -169,45 +769,238 @@ function getCalloutIcon(type: string): string {
   return icons[type] || '📌';
 }
 
-function processHighlights(content: string): string {
-  HIGHLIGHT_REGEX.lastIndex = 0;
-  return content.replace(HIGHLIGHT_REGEX, '<mark>$1</mark>');
+/**
+ * Point wikilink tokens at the shared copies of their targets (unshared targets stay unresolved)
+ */
+function resolveInternalLinks(tokens: Token[], baseUrl: string, resolve: LinkResolver): void {
+  marked.walkTokens(tokens, (token) => {
+    if (token.type !== 'internalLink') return;
+    const link = token as InternalLinkToken;
+    const { name, subpath } = parseLinkTarget(link.target);
+    const fragment = subpath ? `#${linkFragment(subpath)}` : '';
+
+    // [[#Heading]] points into this note
+    if (!name) {
+      if (fragment) link.href = fragment;
+      return;
+    }
+
+    const target = resolve(link.target);
+    if (target) link.href = `${baseUrl}/${target.titleSlug}/${target.hash}${fragment}`;
+  });
 }
 
-function processTags(content: string): string {
-  TAG_REGEX.lastIndex = 0;
-  return content.replace(TAG_REGEX, '<span class="tag">#$1</span>');
+/**
+ * Wikilinks in a note that resolve to other shared notes, each with the
+ * plain text of its paragraph, heading or list item, and the slugs of link
+ * targets that don't resolve (for the backlink index)
+ */
+export function findNoteLinks(note: StoredNote, index: NoteIndex['notes']): { links: NoteLink[]; unresolved: string[] } {
+  const resolve = createLinkResolver(note.linkedNotes, index);
+  // Canvases link from their text cards (note cards carry the linked notes' own text)
+  const markdown = note.kind === 'canvas'
+    ? parseCanvas(note.content).nodes.filter((n) => n.type === 'text').map((n) => n.text || '').join('\n\n')
+    : parseFrontmatter(note.content).body;
+  const tokens = marked.lexer(stripComments(markdown));
+  const links: NoteLink[] = [];
+  const seen = new Set<string>();
+  const unresolved = new Set<string>();
+
+  marked.walkTokens(tokens, (token) => {
+    if (!['paragraph', 'heading', 'text'].includes(token.type) || !('tokens' in token) || !token.tokens) return;
+
+    for (const link of inlineLinks(token.tokens)) {
+      const target = resolve(link.target);
+      if (!target) {
+        const { name } = parseLinkTarget(link.target);
+        if (name) unresolved.add(slugify(name));
+        continue;
+      }
+      if (target.hash === note.hash) continue;
+
+      const snippet = snippetText(token.text, link.display);
+      const key = `${target.hash}:${snippet}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      links.push({ titleSlug: target.titleSlug, hash: target.hash, snippet });
+    }
+  });
+
+  return { links, unresolved: [...unresolved] };
 }
 
-function processCheckboxes(content: string): string {
-  CHECKBOX_CHECKED_REGEX.lastIndex = 0;
-  CHECKBOX_UNCHECKED_REGEX.lastIndex = 0;
-  content = content.replace(CHECKBOX_CHECKED_REGEX, '$1- <input type="checkbox" checked disabled>');
-  content = content.replace(CHECKBOX_UNCHECKED_REGEX, '$1- <input type="checkbox" disabled>');
-  return content;
+function inlineLinks(tokens: Token[]): InternalLinkToken[] {
+  return tokens.flatMap((token) => {
+    if (token.type === 'internalLink') return [token as InternalLinkToken];
+    return 'tokens' in token && token.tokens ? inlineLinks(token.tokens) : [];
+  });
 }
 
-function processInternalLinks(
-  content: string,
-  baseUrl: string,
-  linkedNotes: { titleSlug: string; hash: string }[]
-): string {
-  // Build O(1) lookup map from slugs to hashes
-  const linkMap = new Map(linkedNotes.map(n => [n.titleSlug, n.hash]));
+/**
+ * Markdown block as plain text, cut to SNIPPET_LENGTH around the link
+ */
+function snippetText(markdown: string, display: string): string {
+  const text = markdown
+    .replace(INTERNAL_LINK_GLOBAL_REGEX, (_, target: string, alias?: string) => alias?.trim() || defaultLinkText(target))
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/[*_=~`]+/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (text.length <= SNIPPET_LENGTH) return text;
+
+  const start = Math.max(0, Math.min(text.indexOf(display) - SNIPPET_LENGTH / 3, text.length - SNIPPET_LENGTH));
+  const cut = text.slice(start, start + SNIPPET_LENGTH).trim();
+  return `${start > 0 ? '…' : ''}${cut}${start + SNIPPET_LENGTH < text.length ? '…' : ''}`;
+}
+
+interface NavFolder {
+  name: string;
+  folders: Map<string, NavFolder>;
+  notes: Collection['notes'];
+}
+
+/**
+ * Folder tree of a collection from its note paths
+ */
+function buildNavTree(notes: Collection['notes']): NavFolder {
+  const root: NavFolder = { name: '', folders: new Map(), notes: [] };
+  for (const note of notes) {
+    let folder = root;
+    for (const name of note.path.split('/').slice(0, -1)) {
+      if (!folder.folders.has(name)) folder.folders.set(name, { name, folders: new Map(), notes: [] });
+      folder = folder.folders.get(name)!;
+    }
+    folder.notes.push(note);
+  }
+  return root;
+}
+
+function navContains(folder: NavFolder, hash: string): boolean {
+  return folder.notes.some((n) => n.hash === hash) || [...folder.folders.values()].some((f) => navContains(f, hash));
+}
+
+/**
+ * Folders first, then notes, alphabetically. Without a current note every folder is open.
+ */
+function renderNavTree(folder: NavFolder, baseUrl: string, currentHash?: string): string {
+  const folders = [...folder.folders.values()]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map((f) => {
+      const open = !currentHash || navContains(f, currentHash) ? ' open' : '';
+      return `<li class="nav-folder"><details${open}><summary>${escapeHtml(f.name)}</summary>${renderNavTree(f, baseUrl, currentHash)}</details></li>`;
+    });
+  const notes = [...folder.notes]
+    .sort((a, b) => a.title.localeCompare(b.title))
+    .map((n) => {
+      const current = n.hash === currentHash ? ' class="nav-note is-active" aria-current="page"' : ' class="nav-note"';
+      return `<li${current}><a href="${escapeHtml(`${baseUrl}/${n.titleSlug}/${n.hash}`)}">${escapeHtml(n.title)}</a></li>`;
+    });
+  return `<ul class="nav-tree">${[...folders, ...notes].join('')}</ul>`;
+}
+
+function renderCollectionNav(collection: Collection, note: StoredNote, baseUrl: string): string {
+  const url = `/c/${note.vault}/${collection.slug}/${collection.hash}`;
+  return `<details class="collection-nav" id="collection-nav">
+    <summary><a href="${escapeHtml(url)}">${escapeHtml(collection.title)}</a></summary>
+    ${renderNavTree(buildNavTree(collection.notes), baseUrl, note.hash)}
+  </details>`;
+}
+
+/**
+ * Landing page of a shared folder: its notes as a folder tree
+ */
+export function renderCollectionPage(collection: Collection, theme: DualThemeSettings | undefined, baseUrl: string): string {
+  const darkVars = generateThemeVars(theme?.dark || DEFAULT_DARK, true);
+  const lightVars = generateThemeVars(theme?.light || DEFAULT_LIGHT, false);
+  const count = collection.notes.length;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta property="og:title" content="${escapeHtml(collection.title)}">
+  <meta property="og:type" content="website">
+  <title>${escapeHtml(collection.title)}</title>
+  <style>
+    :root { ${darkVars} }
+    @media (prefers-color-scheme: light) { :root { ${lightVars} } }
+    body {
+      margin: 0;
+      padding: 20px 30px 60px;
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;
+      font-size: var(--font-text-size);
+      background: var(--background-primary);
+      color: var(--text-normal);
+    }
+    main { max-width: 750px; margin: 0 auto; }
+    h1 { font-size: 2em; margin: 0.5em 0 0.2em; }
+    .meta { color: var(--text-muted); margin-bottom: 1.5em; }
+    a { color: var(--text-accent); text-decoration: none; }
+    a:hover { text-decoration: underline; }
+    .nav-tree { list-style: none; margin: 0; padding-left: 1.2em; line-height: 1.8; }
+    main > .nav-tree { padding-left: 0; }
+    .nav-folder summary { cursor: pointer; font-weight: 600; }
+    .nav-note::before { content: '📄 '; }
+  </style>
+</head>
+<body>
+  <main>
+    <h1>${escapeHtml(collection.title)}</h1>
+    <div class="meta">${count} ${count === 1 ? 'note' : 'notes'} · Updated ${escapeHtml(collection.updatedAt.slice(0, 10))}</div>
+    ${count > 0 ? renderNavTree(buildNavTree(collection.notes), baseUrl) : '<p>No notes have been shared in this folder yet.</p>'}
+  </main>
+</body>
+</html>`;
+}
+
+function renderLinkedMentions(mentions: LinkedMention[], baseUrl: string): string {
+  const items = mentions.map((m) => `
+    <div class="linked-mention">
+      <a href="${escapeHtml(`${baseUrl}/${m.titleSlug}/${m.hash}`)}" class="internal-link linked-mention-title">${escapeHtml(m.title)}</a>
+      ${m.snippets.map((s) => `<p class="linked-mention-snippet">${escapeHtml(s)}</p>`).join('')}
+    </div>`).join('');
+
+  return `<section class="linked-mentions">
+      <h2 class="linked-mentions-heading">Linked mentions <span class="linked-mentions-count">${mentions.length}</span></h2>${items}
+    </section>`;
+}
+
+/**
+ * Give headings unique ids (repeats get -1, -2, ...) and move block-id anchors
+ * to the start of their paragraph or list item so links scroll to the block
+ */
+function assignAnchors(tokens: Token[]): void {
+  const used = new Map<string, number>();
 
-  INTERNAL_LINK_REGEX.lastIndex = 0;
-  return content.replace(INTERNAL_LINK_REGEX, (match, link, display) => {
-    const slug = link.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
-    const text = display || link;
-    const hash = linkMap.get(slug);
+  marked.walkTokens(tokens, (token) => {
+    if (token.type === 'heading') {
+      const base = headingId(token.text);
+      if (!base) return;
+      const count = used.get(base) || 0;
+      used.set(base, count + 1);
+      (token as AnchoredHeading).id = count ? `${base}-${count}` : base;
+      return;
+    }
 
-    if (hash) {
-      return `<a href="${baseUrl}/${slug}/${hash}" class="internal-link">${escapeHtml(text)}</a>`;
+    const children = 'tokens' in token ? token.tokens : undefined;
+    const last = children?.[children.length - 1];
+    if (children && last?.type === 'blockId') {
+      children.unshift(children.pop()!);
     }
-    return `<span class="internal-link unresolved">${escapeHtml(text)}</span>`;
   });
 }
 
+/**
+ * Obsidian's link text for an unaliased link: "Note > Heading", or just "Heading" within the note
+ */
+function defaultLinkText(target: string): string {
+  const { name, subpath } = parseLinkTarget(target);
+  const parts = subpath ? subpath.split('#').map((p) => p.trim()).filter(Boolean) : [];
+  return [name, ...parts].filter(Boolean).join(' > ') || target.trim();
+}
+
 function escapeHtml(text: string): string {
   return text
     .replace(/&/g, '&amp;')
@@ -226,6 +1019,13 @@ function generateThemeVars(t: ThemeSettings, isDark: boolean): string {
       --text-accent: ${t.textAccent};
       --interactive-accent: ${t.interactiveAccent};
       --code-background: ${t.codeBackground};
+      --code-normal: ${t.textNormal};
+      --code-comment: ${t.textMuted};
+      --code-keyword: ${t.textAccent};
+      --code-function: color-mix(in srgb, ${t.interactiveAccent} 40%, ${isDark ? '#61afef' : '#0550ae'});
+      --code-string: color-mix(in srgb, ${isDark ? '#98c379' : '#116329'} 80%, ${t.textNormal});
+      --code-value: color-mix(in srgb, ${isDark ? '#d19a66' : '#953800'} 80%, ${t.textNormal});
+      --code-tag: color-mix(in srgb, ${isDark ? '#e06c75' : '#b31d28'} 80%, ${t.textNormal});
       --background-modifier-border: ${isDark ? '#404040' : '#e3e3e3'};
       --text-highlight-bg: ${isDark ? 'rgba(255, 208, 0, 0.4)' : 'rgba(255, 208, 0, 0.5)'};
       --tag-background: ${isDark ? 'rgba(124, 58, 237, 0.2)' : 'rgba(124, 58, 237, 0.1)'};
@@ -325,6 +1125,65 @@ function generateStylesWithVars(darkVars: string, lightVars: string): string {
       font-size: 0.85em;
     }
 
+    /* Syntax highlighting - colours come from the synced theme (see generateThemeVars) */
+    .code-block { position: relative; }
+    .copy-code-button {
+      position: absolute;
+      top: 6px;
+      right: 6px;
+      padding: 2px 8px;
+      font-size: 0.75em;
+      color: var(--text-muted);
+      background: var(--background-secondary);
+      border: 1px solid var(--background-modifier-border);
+      border-radius: 4px;
+      cursor: pointer;
+      opacity: 0;
+      transition: opacity 0.2s;
+    }
+    .code-block:hover .copy-code-button,
+    .copy-code-button:focus { opacity: 1; }
+    .hljs { color: var(--code-normal); }
+    .hljs-comment, .hljs-quote, .hljs-meta { color: var(--code-comment); font-style: italic; }
+    .hljs-keyword, .hljs-selector-tag, .hljs-built_in, .hljs-type, .hljs-doctag { color: var(--code-keyword); }
+    .hljs-title, .hljs-section, .hljs-selector-id, .hljs-selector-class { color: var(--code-function); }
+    .hljs-string, .hljs-regexp, .hljs-addition, .hljs-char.escape_ { color: var(--code-string); }
+    .hljs-number, .hljs-literal, .hljs-symbol, .hljs-bullet, .hljs-variable.constant_ { color: var(--code-value); }
+    .hljs-tag, .hljs-name, .hljs-attr, .hljs-attribute, .hljs-property, .hljs-deletion, .hljs-template-variable { color: var(--code-tag); }
+    .hljs-emphasis { font-style: italic; }
+    .hljs-strong { font-weight: 600; }
+
+    /* Line numbers (share-line-numbers: true) */
+    .show-line-numbers pre code { counter-reset: line; }
+    .show-line-numbers .code-line::before {
+      counter-increment: line;
+      content: counter(line);
+      display: inline-block;
+      width: 2.5em;
+      margin-right: 1em;
+      padding-right: 0.5em;
+      text-align: right;
+      color: var(--text-muted);
+      border-right: 1px solid var(--background-modifier-border);
+      user-select: none;
+    }
+
+    .mermaid-diagram {
+      margin: 1em 0;
+      text-align: center;
+      overflow-x: auto;
+    }
+    .mermaid-diagram svg { max-width: 100%; height: auto; }
+    .mermaid-diagram pre { text-align: left; }
+    .mermaid-diagram.mermaid-error pre { border-left: 3px solid var(--text-muted); }
+
+    .katex { font-size: 1.1em; }
+    .katex-display {
+      overflow-x: auto;
+      overflow-y: hidden;
+      padding: 0.25em 0;
+    }
+
     blockquote {
       margin: 1em 0;
       padding: 0.5em 0 0.5em 1em;
@@ -340,17 +1199,17 @@ function generateStylesWithVars(darkVars: string, lightVars: string): string {
     li { margin: 0.25em 0; }
     li > ul, li > ol { margin: 0.25em 0; }
 
-    li:has(> input[type="checkbox"]) {
+    li.task-list-item {
       list-style: none;
     }
-    ul:has(> li > input[type="checkbox"]) {
+    ul:has(> li.task-list-item) {
       padding-left: 0;
     }
-    ul ul:has(> li > input[type="checkbox"]) {
+    ul ul:has(> li.task-list-item) {
       padding-left: 1.5em;
       position: relative;
     }
-    ul ul:has(> li > input[type="checkbox"])::before {
+    ul ul:has(> li.task-list-item)::before {
       content: '';
       position: absolute;
       left: 0.4em;
@@ -441,6 +1300,113 @@ function generateStylesWithVars(darkVars: string, lightVars: string): string {
     .callout[data-callout="todo"] { border-left-color: #448aff; }
     .callout[data-callout="failure"], .callout[data-callout="fail"], .callout[data-callout="missing"] { border-left-color: #ff5252; }
 
+    .markdown-embed {
+      margin: 1em 0;
+      padding: 0 0 0 16px;
+      border-left: 2px solid var(--interactive-accent);
+    }
+    .markdown-embed-title {
+      font-size: 0.85em;
+      color: var(--text-muted);
+    }
+    .markdown-embed-title p { margin: 0 0 0.5em; }
+    .markdown-embed-content > :first-child { margin-top: 0; }
+    .markdown-embed-content > :last-child { margin-bottom: 0; }
+
+    .collection-nav {
+      max-width: 750px;
+      margin: 0 auto;
+      padding: 12px 30px 0;
+      box-sizing: border-box;
+      font-size: 0.9em;
+    }
+    .collection-nav > summary {
+      cursor: pointer;
+      font-weight: 600;
+      padding: 6px 0;
+    }
+    .collection-nav > .nav-tree { padding-left: 0; }
+    .nav-tree {
+      list-style: none;
+      margin: 0;
+      padding-left: 1em;
+      line-height: 1.7;
+    }
+    .nav-folder summary { cursor: pointer; color: var(--text-muted); }
+    .nav-note a { color: var(--text-normal); }
+    .nav-note.is-active a { color: var(--text-accent); font-weight: 600; }
+    @media (min-width: ${NAV_SIDEBAR_MIN_WIDTH}px) {
+      .collection-nav {
+        position: fixed;
+        top: 0;
+        left: 0;
+        bottom: 0;
+        width: 260px;
+        max-width: none;
+        padding: 20px;
+        overflow-y: auto;
+        border-right: 1px solid var(--background-secondary);
+      }
+    }
+
+    .linked-mentions {
+      margin-top: 3em;
+      padding-top: 1em;
+      border-top: 1px solid var(--background-secondary);
+    }
+    .linked-mentions-heading { font-size: 1.1em; }
+    .linked-mentions-count {
+      font-size: 0.8em;
+      font-weight: normal;
+      color: var(--text-muted);
+    }
+    .linked-mention {
+      margin: 0.75em 0;
+      padding: 8px 12px;
+      border-radius: 6px;
+      background: var(--background-secondary);
+    }
+    .linked-mention-title { font-weight: 600; }
+    .linked-mention-snippet {
+      margin: 4px 0 0;
+      font-size: 0.9em;
+      color: var(--text-muted);
+    }
+
+    .metadata-properties {
+      width: auto;
+      margin: 0 0 1.5em;
+      font-size: 0.9em;
+    }
+    .metadata-properties th,
+    .metadata-properties td {
+      border: none;
+      padding: 4px 12px 4px 0;
+      vertical-align: top;
+    }
+    .metadata-properties th {
+      background: none;
+      font-weight: 500;
+      color: var(--text-muted);
+      white-space: nowrap;
+    }
+
+    h1:target, h2:target, h3:target, h4:target, h5:target, h6:target,
+    p:has(> .block-anchor:target), li:has(> .block-anchor:target) {
+      background: var(--text-highlight-bg);
+      border-radius: 4px;
+    }
+
+    .revision-banner {
+      margin: 0 0 1.5em;
+      padding: 8px 12px;
+      border-radius: 6px;
+      background: var(--background-secondary);
+      border-left: 4px solid var(--interactive-accent);
+      color: var(--text-muted);
+      font-size: 0.9em;
+    }
+
     /* Theme toggle button */
     #theme-toggle {
       position: fixed;
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { archiveRevision, getRevision, listRevisions, restoreRevision } from './revisions';
+import { hashPassword } from './password';
+import { StoredNote } from './types';
+
+/**
+ * In-memory bucket with the calls revision history uses
+ */
+class FakeBucket {
+  objects = new Map<string, string>();
+
+  async get(key: string) {
+    const body = this.objects.get(key);
+    return body === undefined ? null : { json: async () => JSON.parse(body) };
+  }
+
+  async put(key: string, body: string) {
+    this.objects.set(key, body);
+  }
+
+  async delete(key: string) {
+    this.objects.delete(key);
+  }
+
+  async list({ prefix }: { prefix: string }) {
+    const objects = [...this.objects.keys()].filter((key) => key.startsWith(prefix)).map((key) => ({ key }));
+    return { objects, truncated: false };
+  }
+
+  asBucket(): R2Bucket {
+    return this as unknown as R2Bucket;
+  }
+}
+
+function storedNote(content: string, revision: number): StoredNote {
+  return {
+    vault: 'vault',
+    titleSlug: 'note',
+    hash: '0123456789abcdef',
+    title: 'Note',
+    content,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-02T00:00:00.000Z',
+    linkedNotes: [],
+    revision,
+  };
+}
+
+describe('restoreRevision', () => {
+  it('applies the restored content\'s share properties again', async () => {
+    const bucket = new FakeBucket();
+    const oldContent = '---\ntags: [project, draft]\naliases: Old name\nshare-expires: 2030-01-01\n---\nFirst version';
+    const first = storedNote(oldContent, 1);
+    const current: StoredNote = {
+      ...storedNote('Second version', await archiveRevision(bucket.asBucket(), first, { title: 'Note', content: 'Second version' }, 20)),
+      linkedNotes: [{ titleSlug: 'other', hash: 'fedcba9876543210' }],
+      retentionDays: 7,
+    };
+
+    const target = await getRevision(bucket.asBucket(), current, 1);
+    const { note, options } = await restoreRevision(bucket.asBucket(), current, target!, 20);
+
+    expect(note.content).toBe(oldContent);
+    expect(note.linkedNotes).toEqual([]);
+    expect(note.expiresAt).toBe('2030-01-01T00:00:00.000Z');
+    expect(note.retentionDays).toBe(7);
+    expect(note.revision).toBe(3);
+    expect(options.tags).toEqual(['project', 'draft']);
+    expect(options.aliases).toEqual(['Old name']);
+    expect(JSON.parse(bucket.objects.get('notes/note-0123456789abcdef.json')!)).toEqual(note);
+
+    // The replaced version is kept in the history
+    const revisions = await listRevisions(bucket.asBucket(), note);
+    expect(revisions.map((r) => [r.revision, r.current])).toEqual([[3, true], [2, false], [1, false]]);
+  });
+
+  it('drops an expiry the restored content does not set', async () => {
+    const bucket = new FakeBucket();
+    const current = { ...storedNote('---\nshare-expires: 2030-01-01\n---\nNow', 2), expiresAt: '2030-01-01T00:00:00.000Z' };
+    const target = storedNote('Before', 1);
+
+    const { note, options } = await restoreRevision(bucket.asBucket(), current, target, 20);
+
+    expect(note.expiresAt).toBeUndefined();
+    expect(options.tags).toEqual([]);
+  });
+
+  it('keeps the password unless the restored content sets one', async () => {
+    const bucket = new FakeBucket();
+    const password = await hashPassword('correct horse');
+    const current = { ...storedNote('Now', 2), password };
+
+    const kept = await restoreRevision(bucket.asBucket(), current, storedNote('Before', 1), 20);
+    expect(kept.note.password).toBe(password);
+
+    // A share-password in the restored content is hashed, never stored as text
+    const withPassword = storedNote('---\nshare-password: battery staple\n---\nBefore', 1);
+    const changed = await restoreRevision(bucket.asBucket(), current, withPassword, 20);
+    expect(changed.note.password!.salt).not.toBe(password.salt);
+    expect(changed.note.content).not.toContain('battery staple');
+  });
+});
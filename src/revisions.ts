@@ -0,0 +1,156 @@
+import { Env, NoteRevision, StoredNote } from './types';
+import { ShareOptions, prepareSharedContent } from './frontmatter';
+import { resolvePassword } from './password';
+
+// Default number of previous revisions kept per note
+const DEFAULT_MAX_REVISIONS = 20;
+
+export function maxRevisions(env: Env): number {
+  const parsed = parseInt(env.MAX_REVISIONS || '', 10);
+  return isNaN(parsed) ? DEFAULT_MAX_REVISIONS : Math.max(0, parsed);
+}
+
+function revisionPrefix(titleSlug: string, hash: string): string {
+  return `revisions/${titleSlug}-${hash}/`;
+}
+
+function revisionKey(titleSlug: string, hash: string, revision: number): string {
+  return `${revisionPrefix(titleSlug, hash)}${revision}.json`;
+}
+
+async function listRevisionNumbers(bucket: R2Bucket, titleSlug: string, hash: string): Promise<number[]> {
+  const prefix = revisionPrefix(titleSlug, hash);
+  const numbers: number[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const list = await bucket.list({ prefix, cursor });
+    for (const object of list.objects) {
+      const n = parseInt(object.key.slice(prefix.length), 10);
+      if (!isNaN(n)) numbers.push(n);
+    }
+    cursor = list.truncated ? list.cursor : undefined;
+  } while (cursor);
+
+  return numbers.sort((a, b) => a - b);
+}
+
+/**
+ * Archive the current version of a note before it is overwritten and return
+ * the revision number for the new version. Unchanged content is not archived.
+ */
+export async function archiveRevision(
+  bucket: R2Bucket,
+  existing: StoredNote | null | undefined,
+  next: Pick<StoredNote, 'title' | 'content'>,
+  cap: number
+): Promise<number> {
+  if (!existing) return 1;
+
+  const current = existing.revision || 1;
+  if (existing.content === next.content && existing.title === next.title) return current;
+  if (cap === 0) return current + 1;
+
+  await bucket.put(revisionKey(existing.titleSlug, existing.hash, current), JSON.stringify(existing));
+
+  // Drop revisions beyond the cap (oldest first)
+  const numbers = await listRevisionNumbers(bucket, existing.titleSlug, existing.hash);
+  const excess = numbers.slice(0, Math.max(0, numbers.length - cap));
+  await Promise.all(excess.map((n) => bucket.delete(revisionKey(existing.titleSlug, existing.hash, n))));
+
+  return current + 1;
+}
+
+/**
+ * List archived revisions plus the current version (newest first)
+ */
+export async function listRevisions(bucket: R2Bucket, note: StoredNote): Promise<NoteRevision[]> {
+  const numbers = await listRevisionNumbers(bucket, note.titleSlug, note.hash);
+  const archived = await Promise.all(
+    numbers.map(async (n) => {
+      const obj = await bucket.get(revisionKey(note.titleSlug, note.hash, n));
+      if (!obj) return undefined;
+      const rev: StoredNote = await obj.json();
+      return { revision: n, title: rev.title, updatedAt: rev.updatedAt, size: rev.content.length, current: false };
+    })
+  );
+
+  const revisions = archived.filter((r): r is NoteRevision => r !== undefined);
+  revisions.push({
+    revision: note.revision || 1,
+    title: note.title,
+    updatedAt: note.updatedAt,
+    size: note.content.length,
+    current: true,
+  });
+
+  return revisions.sort((a, b) => b.revision - a.revision);
+}
+
+/**
+ * Load a revision by number (the current note if it is the current revision)
+ */
+export async function getRevision(
+  bucket: R2Bucket,
+  note: StoredNote,
+  revision: number
+): Promise<StoredNote | undefined> {
+  if (revision === (note.revision || 1)) return note;
+
+  const obj = await bucket.get(revisionKey(note.titleSlug, note.hash, revision));
+  if (!obj) return undefined;
+  return obj.json<StoredNote>();
+}
+
+/**
+ * Store a previous revision as the note's current version (archiving the
+ * current one). The restored content's share-* properties apply again, as if
+ * it had been re-shared; returns them for the index entry.
+ */
+export async function restoreRevision(
+  bucket: R2Bucket,
+  note: StoredNote,
+  target: StoredNote,
+  cap: number
+): Promise<{ note: StoredNote; options: ShareOptions }> {
+  const prepared = prepareSharedContent(target.content);
+  const restored: StoredNote = {
+    ...note,
+    content: prepared.content,
+    linkedNotes: target.linkedNotes,
+    updatedAt: new Date().toISOString(),
+    // Retention stays as currently configured, and so does the password unless the content sets one
+    password: await resolvePassword(prepared.options.password, note.password),
+    expiresAt: prepared.options.expiresAt,
+    revision: await archiveRevision(bucket, note, { title: note.title, content: prepared.content }, cap),
+  };
+  await bucket.put(`notes/${note.titleSlug}-${note.hash}.json`, JSON.stringify(restored));
+
+  return { note: restored, options: prepared.options };
+}
+
+/**
+ * Delete every archived revision of a note
+ */
+export async function deleteRevisions(bucket: R2Bucket, titleSlug: string, hash: string): Promise<void> {
+  const numbers = await listRevisionNumbers(bucket, titleSlug, hash);
+  await Promise.all(numbers.map((n) => bucket.delete(revisionKey(titleSlug, hash, n))));
+}
+
+/**
+ * Move archived revisions to a new note hash (used when re-keying)
+ */
+export async function moveRevisions(bucket: R2Bucket, titleSlug: string, oldHash: string, newHash: string): Promise<void> {
+  const numbers = await listRevisionNumbers(bucket, titleSlug, oldHash);
+  await Promise.all(
+    numbers.map(async (n) => {
+      const obj = await bucket.get(revisionKey(titleSlug, oldHash, n));
+      if (!obj) return;
+      const rev: StoredNote = await obj.json();
+      rev.hash = newHash;
+      rev.content = rev.content.split(`/i/${oldHash}/`).join(`/i/${newHash}/`);
+      await bucket.put(revisionKey(titleSlug, newHash, n), JSON.stringify(rev));
+      await bucket.delete(revisionKey(titleSlug, oldHash, n));
+    })
+  );
+}
@@ -0,0 +1,137 @@
+import { FilterXSS, IWhiteList, escapeAttrValue, friendlyAttrValue, safeAttrValue } from 'xss';
+import { HtmlPolicy } from './types';
+
+// Attributes allowed on every kept tag
+const GLOBAL_ATTRS = ['class', 'title', 'style', 'dir', 'lang'];
+
+// Tags Obsidian renders, plus the markup our own renderers emit
+// (callouts, code blocks, task lists, mermaid placeholders, plugin-injected video)
+const DEFAULT_TAGS: Record<string, string[]> = {
+  a: ['href', 'target', 'rel'],
+  abbr: [], b: [], i: [], em: [], strong: [], u: [], s: [], del: [], ins: [], strike: [],
+  small: [], sub: [], sup: [], mark: [], kbd: [], samp: [], var: [], cite: [], q: [], dfn: [],
+  p: [], br: [], hr: [], div: ['data-callout', 'data-callout-fold'], span: ['id'], // id: block-reference anchors
+  blockquote: [], pre: [], code: [],
+  h1: ['id'], h2: ['id'], h3: ['id'], h4: ['id'], h5: ['id'], h6: ['id'],
+  ul: [], ol: ['start', 'reversed', 'type'], li: [], dl: [], dt: [], dd: [],
+  table: [], thead: [], tbody: [], tfoot: [], tr: [], caption: [], colgroup: [], col: ['span'],
+  th: ['align', 'colspan', 'rowspan', 'scope'], td: ['align', 'colspan', 'rowspan'],
+  img: ['src', 'alt', 'width', 'height', 'loading'],
+  video: ['src', 'poster', 'controls', 'playsinline', 'preload', 'width', 'height', 'loop', 'muted', 'autoplay'],
+  audio: ['src', 'controls', 'preload', 'loop', 'muted'],
+  source: ['src', 'type'],
+  details: ['open'], summary: [],
+  figure: [], figcaption: [],
+  iframe: ['src', 'width', 'height', 'allow', 'allowfullscreen', 'frameborder', 'referrerpolicy'],
+  input: ['type', 'checked', 'disabled'], // task list checkboxes only (see onTag)
+  button: ['type', 'aria-label'], // code block copy button
+};
+
+// Embeds allowed in iframes unless the vault overrides the list (subdomains included)
+const DEFAULT_IFRAME_HOSTS = [
+  'youtube.com',
+  'youtube-nocookie.com',
+  'player.vimeo.com',
+  'open.spotify.com',
+  'w.soundcloud.com',
+  'codepen.io',
+  'loom.com',
+];
+
+// Removed together with their contents rather than just unwrapped
+const STRIP_BODY_TAGS = ['script', 'style', 'noscript', 'template', 'textarea', 'select', 'object', 'embed'];
+
+// Never allowed, even via a vault's allowTags
+const FORBIDDEN_TAGS = new Set([...STRIP_BODY_TAGS, 'base', 'meta', 'link', 'form', 'frame', 'frameset', 'applet']);
+
+// Embedded pages can run their own player scripts but never navigate or script the note
+const IFRAME_SANDBOX = 'allow-scripts allow-same-origin allow-popups allow-presentation';
+
+const IFRAME_REGEX = /<iframe\b[^>]*>[\s\S]*?<\/iframe\s*>/gi;
+const SRC_ATTR_REGEX = /\ssrc\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i;
+const CHECKBOX_REGEX = /\stype\s*=\s*["']?checkbox["'\s>/]/i;
+const SCHEME_REGEX = /^[a-z][a-z0-9+.-]*:/i;
+
+const defaultFilter = createFilter({});
+
+interface Sanitizer {
+  filter: FilterXSS;
+  iframeHosts: string[];
+}
+
+function createFilter(policy: HtmlPolicy): Sanitizer {
+  const blocked = new Set((policy.blockTags || []).map((t) => t.toLowerCase()));
+  const allowList: IWhiteList = {};
+  for (const [tag, attrs] of Object.entries(DEFAULT_TAGS)) {
+    if (!blocked.has(tag)) allowList[tag] = [...GLOBAL_ATTRS, ...attrs];
+  }
+  for (const tag of policy.allowTags || []) {
+    const name = tag.toLowerCase();
+    if (!allowList[name] && !FORBIDDEN_TAGS.has(name)) allowList[name] = [...GLOBAL_ATTRS];
+  }
+
+  const iframeHosts = policy.iframeHosts ?? DEFAULT_IFRAME_HOSTS;
+
+  const filter = new FilterXSS({
+    whiteList: allowList,
+    stripIgnoreTag: true,
+    stripIgnoreTagBody: STRIP_BODY_TAGS,
+    onTag(tag, html, options) {
+      if (options.isClosing) return undefined;
+      if (tag === 'iframe' && allowList.iframe && !isAllowedEmbed(html, iframeHosts)) return '';
+      if (tag === 'input' && allowList.input && !CHECKBOX_REGEX.test(html)) return '';
+      return undefined;
+    },
+    safeAttrValue(tag, name, value, cssFilter) {
+      const safe = safeAttrValue(tag, name, value, cssFilter);
+      // The default filter drops scheme-less relative URLs (e.g. "other-note.md")
+      if (!safe && (name === 'href' || name === 'src')) {
+        const url = friendlyAttrValue(value).trim();
+        if (url && !SCHEME_REGEX.test(url)) return escapeAttrValue(url);
+      }
+      return safe;
+    },
+  });
+
+  return { filter, iframeHosts };
+}
+
+function isAllowedEmbed(html: string, hosts: string[]): boolean {
+  const match = html.match(SRC_ATTR_REGEX);
+  const src = match ? friendlyAttrValue(match[1] ?? match[2] ?? match[3]) : '';
+  try {
+    const url = new URL(src);
+    if (url.protocol !== 'https:') return false;
+    return hosts.some((host) => url.hostname === host || url.hostname.endsWith(`.${host}`));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Allowlist sanitizer run on rendered note HTML. Raw HTML in notes (and markup
+ * from linked notes) can't add scripts, event handlers or javascript: URLs.
+ */
+export function sanitizeHtml(html: string, policy?: HtmlPolicy): string {
+  const { filter, iframeHosts } = policy ? createFilter(policy) : defaultFilter;
+  // Drop unapproved embeds whole (the filter alone would leave their closing tags)
+  IFRAME_REGEX.lastIndex = 0;
+  html = html.replace(IFRAME_REGEX, (match) => (isAllowedEmbed(match, iframeHosts) ? match : ''));
+  return filter.process(html).replace(/<iframe /g, `<iframe sandbox="${IFRAME_SANDBOX}" loading="lazy" `);
+}
+
+/**
+ * Validate a vault HTML policy before storing it
+ */
+export function validateHtmlPolicy(policy: unknown): string | undefined {
+  if (policy === null) return undefined;
+  if (typeof policy !== 'object' || Array.isArray(policy)) return 'policy must be an object or null';
+
+  for (const key of ['allowTags', 'blockTags', 'iframeHosts'] as const) {
+    const value = (policy as HtmlPolicy)[key];
+    if (value !== undefined && (!Array.isArray(value) || value.some((v) => typeof v !== 'string' || !v.trim()))) {
+      return `${key} must be a list of non-empty strings`;
+    }
+  }
+  return undefined;
+}
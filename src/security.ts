@@ -0,0 +1,63 @@
+import { KATEX_CDN_PATH } from './math';
+import { MERMAID_CDN_PATH } from './mermaid';
+
+// Uploaded files that may be displayed inline; anything else is served as a download
+const INLINE_MEDIA_REGEX = /^(image|video|audio)\//;
+
+// Origins accepted for frame-ancestors: scheme://host[:port], optionally *.host
+const ORIGIN_REGEX = /^https?:\/\/(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)*(:\d+)?$/i;
+
+/**
+ * Per-response nonce for the inline scripts in rendered pages
+ */
+export function generateNonce(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return btoa(String.fromCharCode(...bytes));
+}
+
+/**
+ * CSP for HTML pages. Only nonced scripts run; inline styles stay allowed
+ * (theme variables, KaTeX layout and mermaid SVGs depend on them). CDN sources
+ * are pinned to the mermaid and KaTeX paths: the CDN serves any npm package,
+ * so allowing its whole origin would let injected markup load arbitrary scripts.
+ */
+export function pageCsp(nonce: string, frameAncestors?: string[]): string {
+  return [
+    "default-src 'none'",
+    `script-src 'nonce-${nonce}' ${MERMAID_CDN_PATH}`,
+    `style-src 'unsafe-inline' ${KATEX_CDN_PATH}`,
+    `font-src ${KATEX_CDN_PATH} data:`,
+    "img-src 'self' https: data:",
+    "media-src 'self' https:",
+    'frame-src https:', // iframe hosts are already limited by the sanitizer
+    "connect-src 'self'",
+    "form-action 'self'",
+    "base-uri 'none'",
+    `frame-ancestors ${frameAncestors?.length ? frameAncestors.join(' ') : "'none'"}`,
+  ].join('; ');
+}
+
+/**
+ * Headers for user-uploaded files. Opened directly, a file runs in a sandbox
+ * with no script access to the share domain (SVG can carry scripts).
+ */
+export function uploadHeaders(contentType: string): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Content-Security-Policy': "default-src 'none'; img-src 'self' data:; style-src 'unsafe-inline'; sandbox",
+  };
+  if (!INLINE_MEDIA_REGEX.test(contentType)) {
+    headers['Content-Disposition'] = 'attachment';
+  }
+  return headers;
+}
+
+/**
+ * Validate a vault's list of origins allowed to embed its pages
+ */
+export function validateFrameAncestors(origins: unknown): string | undefined {
+  if (origins === null) return undefined;
+  if (!Array.isArray(origins) || origins.some((o) => typeof o !== 'string' || !ORIGIN_REGEX.test(o))) {
+    return 'origins must be a list like ["https://wiki.example.com", "https://*.example.com"]';
+  }
+  return undefined;
+}
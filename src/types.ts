@@ -4,14 +4,77 @@ export type {
   DualThemeSettings,
   LinkedNote,
   ShareRequest,
+  SharedCanvas,
+  SharedCanvasNode,
+  SharedCanvasEdge,
+  CanvasSide,
+  CollectionRequest,
+  CollectionResponse,
+  PasswordRequest,
+  NoteChangeResponse,
+  NoteRevision,
+  NoteSort,
+  SharedNote,
+  NoteListResponse,
+  NoteStats,
+  StatsBucket,
+  StatsGranularity,
+  RecentView,
+  RekeyRequest,
+  RekeyResponse,
   ThemeSyncRequest,
 } from '@obsidian-note-share/shared';
 
+import type { RecentView, SharedNote } from '@obsidian-note-share/shared';
+
 // Worker-specific types
 
 export interface Env {
   NOTES: R2Bucket;
-  API_KEY: string;
+  API_KEY?: string; // root admin key (may be unset once team admin keys exist)
+  SESSION_SECRET?: string; // signs unlock cookies (falls back to API_KEY; one of them is required)
+  MAX_REVISIONS?: string; // previous revisions kept per note (default 20)
+}
+
+export type Permission = 'share' | 'delete' | 'stats' | 'theme' | 'admin';
+
+// Scoped API key, stored at keys/{id}.json (the key itself is never stored)
+export interface ApiKeyRecord {
+  id: string;
+  keyHash: string; // hex SHA-256 of the key
+  label: string;
+  vaults: string[] | '*';
+  permissions: Permission[];
+  createdAt: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+}
+
+export interface CreateApiKeyRequest {
+  label: string;
+  vaults: string[] | '*';
+  permissions: Permission[];
+}
+
+// Authenticated caller, set on the request context by the auth middleware
+export interface AuthContext {
+  keyId: string;
+  vaults: string[] | '*';
+  permissions: Permission[];
+}
+
+export type AppEnv = {
+  Bindings: Env;
+  Variables: {
+    auth: AuthContext;
+    nonce: string; // CSP nonce for inline scripts in rendered pages
+    frameAncestors?: string[]; // set by page routes from the vault config
+  };
+};
+
+export interface NotePassword {
+  salt: string; // hex
+  hash: string; // hex PBKDF2-SHA256
 }
 
 export interface StoredNote {
@@ -24,13 +87,115 @@ export interface StoredNote {
   updatedAt: string;
   linkedNotes: { titleSlug: string; hash: string }[];
   retentionDays?: number;
+  password?: NotePassword;
+  revision?: number; // current revision number (missing = 1)
+  expiresAt?: string; // from the share-expires property
+  kind?: 'canvas'; // content is a SharedCanvas as JSON (missing = markdown note)
+}
+
+// Per-vault worker configuration, stored at {vault}/config.json
+export interface VaultConfig {
+  hashSecret?: string; // mixed into note hashes (see generateNoteHash)
+  html?: HtmlPolicy; // overrides for the rendered-HTML sanitizer
+  frameAncestors?: string[]; // origins allowed to embed shared pages in iframes
+}
+
+// Per-vault adjustments to the default HTML allowlist
+export interface HtmlPolicy {
+  allowTags?: string[]; // extra tags to keep (global attributes only)
+  blockTags?: string[]; // default tags to strip, e.g. ["iframe", "video"]
+  iframeHosts?: string[]; // replaces the default embed hosts (subdomains included)
+}
+
+// PUT /api/vault/html body (null policy restores the defaults)
+export interface HtmlPolicyRequest {
+  vault: string;
+  policy: HtmlPolicy | null;
+}
+
+// PUT /api/vault/embedding body (null disallows embedding)
+export interface FrameAncestorsRequest {
+  vault: string;
+  origins: string[] | null;
+}
+
+// Old URL kept alive after re-keying, stored at redirects/{titleSlug}-{oldHash}.json
+export interface NoteRedirect {
+  vault: string;
+  titleSlug: string;
+  hash: string;
+  expiresAt: string;
 }
 
+// One shard of a vault's note index, at {vault}/index/shard-{n}.json (see note-index.ts).
+// Vaults shared before this layout ({vault}/index.json or {vault}/index/{0-f}.json) are
+// migrated on first use.
 export interface NoteIndex {
-  notes: {
-    titleSlug: string;
-    hash: string;
-    title: string;
-    createdAt: string;
-  }[];
+  notes: (SharedNote & {
+    aliases?: string[]; // frontmatter aliases, for wikilink resolution
+  })[];
+}
+
+// Number of index shards, at {vault}/index/shards.json
+export interface NoteIndexManifest {
+  shards: number; // shard-0 (oldest notes) to shard-{shards - 1}
+}
+
+// Recent views and the all-time total, stored at stats/{hash}.json
+export interface ViewLog {
+  views: RecentView[];
+  total: number;
+  vault?: string; // sent by the page's beacon, kept once the note is found in that vault's index; the scheduled job copies total into it
+}
+
+// One day of a note's views, kept indefinitely in stats/{hash}/{YYYY-MM}.json
+export interface DailyStats {
+  views: number;
+  visitors: string; // HyperLogLog registers (base64) of salted visitor hashes
+  referrers: Record<string, number>; // referring domain -> views
+  reads: number; // read beacons (sent when the reader leaves the page)
+  readSeconds: number; // time on page, summed over reads
+  depthReads: number; // reads reporting scroll depth (canvases don't)
+  readDepth: number; // furthest scroll position (0-100), summed over depthReads
+}
+
+export interface MonthlyStats {
+  days: Record<string, DailyStats>; // keyed by YYYY-MM-DD
+}
+
+// Wikilink from one shared note to another, with the text around it
+export interface NoteLink {
+  titleSlug: string;
+  hash: string;
+  snippet: string;
+}
+
+// Outgoing links of every shared note in a vault, stored at {vault}/backlinks.json
+export interface BacklinkIndex {
+  // Keyed by the linking note's hash. unresolved: slugs of link targets not shared (yet).
+  sources: Record<string, { titleSlug: string; title: string; links: NoteLink[]; unresolved?: string[] }>;
+}
+
+// Folder shared as a navigable collection
+export interface Collection {
+  slug: string;
+  hash: string; // see collectionHash
+  folder: string; // vault path of the folder ('' = whole vault)
+  title: string;
+  notes: { path: string; titleSlug: string; hash: string; title: string }[]; // path relative to the folder
+  createdAt: string;
+  updatedAt: string;
+}
+
+// All shared folders of a vault, stored at {vault}/collections.json
+export interface CollectionIndex {
+  collections: Collection[];
+}
+
+// A shared note linking to the note being rendered ("Linked mentions")
+export interface LinkedMention {
+  titleSlug: string;
+  hash: string;
+  title: string;
+  snippets: string[];
 }
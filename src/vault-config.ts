@@ -0,0 +1,21 @@
+import { VaultConfig } from './types';
+import { updateJson } from './r2-json';
+
+/**
+ * Read a vault's worker-side configuration ({vault}/config.json)
+ */
+export async function getVaultConfig(bucket: R2Bucket, vault: string): Promise<VaultConfig> {
+  const obj = await bucket.get(`${vault}/config.json`);
+  if (!obj) return {};
+  return obj.json<VaultConfig>();
+}
+
+/**
+ * Change some settings of a vault's configuration (conditional R2 write, so
+ * concurrent changes to other settings are kept); undefined removes a setting.
+ * Resolves to the updated configuration.
+ */
+export async function updateVaultConfig(bucket: R2Bucket, vault: string, patch: Partial<VaultConfig>): Promise<VaultConfig> {
+  const config = await updateJson<VaultConfig>(bucket, `${vault}/config.json`, (current = {}) => ({ ...current, ...patch }));
+  return config || {};
+}